@@ -1,21 +1,117 @@
 "use client"
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 
 // Import Rajdhani font
 import { Rajdhani } from "next/font/google"
 
+import { AlertsSection } from "@/components/alerts-section"
+import { AudioControls } from "@/components/audio-controls"
+import { CommandPalette, type PaletteCommand } from "@/components/command-palette"
+import { DataTransferSection } from "@/components/data-transfer-section"
+import { HistoryCalendar } from "@/components/history-calendar"
+import { IntentionPicker } from "@/components/intention-picker"
+import { ProjectPicker } from "@/components/project-picker"
+import { SettingsPanel } from "@/components/settings-panel"
+import { ShortcutsHelp } from "@/components/shortcuts-help"
+import { SoundSection } from "@/components/sound-section"
+import { StatsView } from "@/components/stats-view"
+import { ThemeEditor } from "@/components/theme-editor"
+import { ThemeScheduleSection } from "@/components/theme-schedule-section"
+import { useTimerEngine } from "@/hooks/use-timer-engine"
+import { clearActiveSession, isActiveSessionState, loadActiveSession, saveActiveSession } from "@/lib/active-session"
+import { createMixer, layerForState, type AudioMixer } from "@/lib/audio-mixer"
+import {
+  createAnalyser,
+  createReactionReader,
+  NO_REACTION,
+  REACTION_LIMITS,
+  type AudioReaction,
+} from "@/lib/audio-reactive"
+import {
+  DEFAULT_ALERT_SETTINGS,
+  loadAlertSettings,
+  playChime,
+  saveAlertSettings,
+  showNotification,
+  type AlertKind,
+  type AlertSettings,
+} from "@/lib/alerts"
+import {
+  buildExport,
+  downloadFile,
+  parseImport,
+  writePreferences,
+  type ExportFormat,
+  type ImportResult,
+} from "@/lib/data-transfer"
+import { drawProgressFavicon, setFavicon } from "@/lib/favicon"
+import { drawFieldBackground } from "@/lib/field-background"
+import { createProject, loadProjects, removeProject, saveProjects, type Project } from "@/lib/projects"
+import { addSessionRecord, addSessionRecords, getSessionRecords, type SessionRecord } from "@/lib/session-history"
+import { dailyProgress } from "@/lib/session-stats"
+import { DEFAULT_SETTINGS, loadSettings, minutesToMs, saveSettings, type TimerSettings } from "@/lib/settings"
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  formatKey,
+  keyFromEvent,
+  loadShortcuts,
+  saveShortcuts,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "@/lib/shortcuts"
+import {
+  addCustomTrack,
+  BUILT_IN_TRACKS,
+  DEFAULT_SOUND_SETTINGS,
+  getCustomTracks,
+  loadSoundSettings,
+  MIXER_LAYERS,
+  removeCustomTrack,
+  saveSoundSettings,
+  trackForLayer,
+  trackVolume,
+  type AmbientTrack,
+  type SoundSettings,
+} from "@/lib/sound-library"
+import { completeTask, findOrCreateTask, loadTasks, removeTask, saveTasks, type Task } from "@/lib/tasks"
+import {
+  activeThemeWindow,
+  DEFAULT_THEME_SCHEDULE,
+  loadThemeSchedule,
+  msUntilNextThemeWindow,
+  saveThemeSchedule,
+  watchColorScheme,
+  type ThemeSchedule,
+} from "@/lib/theme-schedule"
+import {
+  DEFAULT_THEME,
+  findTheme,
+  listThemeKeys,
+  loadCustomThemes,
+  saveCustomThemes,
+  THEMES,
+  type CustomTheme,
+  type FieldTheme,
+} from "@/lib/themes"
+import {
+  remainingTime,
+  workElapsedAt,
+  type SessionSummary,
+  type TimerEvent,
+  type TimerSnapshot,
+} from "@/lib/timer-reducer"
+import { createId } from "@/lib/utils"
+
 const rajdhani = Rajdhani({
   weight: "600",
   subsets: ["latin"],
 })
 
 // ===== CONFIG =====
+// Work and break durations are user settings - see lib/settings.ts
 const CONFIG = {
-  // Timer settings
-  WORK_DURATION: 25 * 60 * 1000, // 25 minutes
-  BREAK_DURATION: 5 * 60 * 1000, // 5 minutes
-
   // Starfield settings
   NUM_STARS: 600,
   IDLE_SPEED: 0.2,
@@ -24,56 +120,21 @@ const CONFIG = {
   STAR_SPEED_MAX: 10.5, // Reduced for more relaxing experience
   STAR_RESPAWN_DISTANCE: 650, // How far back stars respawn (easily editable)
   CRUISE_SPEED: 0.8, // Slightly slower than idle speed for a more relaxed feel
+  LONG_BREAK_DRIFT_SPEED: 0.08, // Slow forward drift during a long break instead of a frozen field
 
   // Animation settings
-  ACCELERATION_TIME: 5 * 60 * 1000, // 5 minutes to reach max speed
+  ACCELERATION_RATIO: 0.2, // Fraction of the work session spent reaching max speed (5 of 25 minutes)
   EXIT_ANIMATION_TIME: 1200, // 1.2 seconds
   TRAIL_LENGTH_BASE: 400,
   TRAIL_LENGTH_MULTIPLIER: 300,
+  TWINKLE_SCALE: 1, // Multiplies each star's own twinkle intensity
 
   // Audio settings
   AMBIENT_VOLUME: 0.4, // Reduced from 0.8 to 0.4 (half volume)
   AUDIO_FADE_DURATION: 1.5, // Fade duration in seconds
-}
 
-// ===== THEMES =====
-const THEMES = {
-  CORE: {
-    name: "CORE",
-    background: "#000000",
-    stars: "#f5f5f5",
-    starsSecondary: "#e0e0e0",
-  },
-  SKYLIGHT: {
-    name: "SKYLIGHT",
-    background: "#2d2d2d",
-    stars: "#87ceeb",
-    starsSecondary: "#b0e0e6",
-  },
-  DOTMATRIX: {
-    name: "DOTMATRIX",
-    background: "#7d8664",
-    stars: "#1a1a1a",
-    starsSecondary: "#3a3a3a",
-  },
-  TERMINAL: {
-    name: "TERMINAL",
-    background: "#2e2e2e",
-    stars: "#99ff99",
-    starsSecondary: "#66ff66",
-  },
-  SILT: {
-    name: "SILT",
-    background: "#3c3a37",
-    stars: "#c2b9a4",
-    starsSecondary: "#857f75",
-  },
-  REDLINE: {
-    name: "REDLINE",
-    background: "#0f0f0f",
-    stars: "#ff4d4d",
-    starsSecondary: "#990000",
-  },
+  // Tab settings
+  APP_TITLE: "WARPOMODORO", // Tab title while idle - matches metadata.title in app/layout.tsx
 }
 
 interface Star {
@@ -90,23 +151,36 @@ interface Star {
   colorType?: "primary" | "secondary"
 }
 
-type TimerState = "idle" | "working" | "paused" | "workComplete" | "break" | "breakComplete"
-type ThemeKey = keyof typeof THEMES
+// A star at a random depth with its own twinkle
+const createStar = (): Star => {
+  const baseSize = Math.random() * 2 + 0.5 // Random base size between 0.5 and 2.5
+  return {
+    x: (Math.random() - 0.5) * 2000,
+    y: (Math.random() - 0.5) * 2000,
+    z: Math.random() * 1000,
+    hasValidPrev: false,
+    twinkle: Math.random() * Math.PI * 2, // Random starting phase
+    twinkleSpeed: 0.01 + Math.random() * 0.02, // More varied speeds
+    twinkleIntensity: 0.3 + Math.random() * 0.4, // Random intensity for each star
+    baseSize: baseSize,
+    colorType: Math.random() > 0.7 ? "secondary" : "primary",
+  }
+}
 
 export default function WarPomodoro() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationRef = useRef<number>()
   const starsRef = useRef<Star[]>([])
-  const startTimeRef = useRef<number>(0)
-  const pausedTimeRef = useRef<number>(0)
-  const breakStartSpeedRef = useRef<number>(0)
-  const workElapsedRef = useRef<number>(0) // Track work session elapsed time
-  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const currentSpeedRef = useRef<number>(0) // Starfield speed of the latest frame
+  const holdSpeedRef = useRef<number>(0) // Starfield speed frozen by the HOLD
+  const sessionProjectRef = useRef<string | null>(null)
+  const customThemesRef = useRef<CustomTheme[]>([]) // Latest custom FIELDS, for the FIELD schedule's timers
   const audioContextRef = useRef<AudioContext | null>(null)
-  const audioSourceRef = useRef<MediaElementAudioSourceNode | null>(null)
-  const audioGainRef = useRef<GainNode | null>(null)
+  const audioGainRef = useRef<GainNode | null>(null) // The mixer's master gain
+  const mixerRef = useRef<AudioMixer | null>(null)
+  const analyserRef = useRef<AnalyserNode | null>(null) // Between the master gain and the speakers
+  const readReactionRef = useRef<(() => AudioReaction) | null>(null) // Set while the starfield follows the mix
 
-  const [state, setState] = useState<TimerState>("idle")
   const [sessions, setSessions] = useState(0)
   const [completedSessions, setCompletedSessions] = useState(0) // Track only completed sessions
   const [fadeOpacity, setFadeOpacity] = useState(0)
@@ -115,9 +189,64 @@ export default function WarPomodoro() {
   const [showProgressHint, setShowProgressHint] = useState(false)
   const [controlsVisible, setControlsVisible] = useState(true)
   const [ambientEnabled, setAmbientEnabled] = useState(true)
-  const [currentTheme, setCurrentTheme] = useState<ThemeKey>("CORE")
+  const [savedStateLoaded, setSavedStateLoaded] = useState(false) // Gates restoring the running session
+  const [pendingRestore, setPendingRestore] = useState<TimerSnapshot | null>(null)
+  const [currentTheme, setCurrentTheme] = useState<string>(DEFAULT_THEME) // Built-in name or custom FIELD id
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 })
   const [cruiseMode, setCruiseMode] = useState(false) // New state for cruise mode
+  const [settings, setSettings] = useState<TimerSettings>(DEFAULT_SETTINGS)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showCalendar, setShowCalendar] = useState(false)
+  const [historyRecords, setHistoryRecords] = useState<SessionRecord[]>([])
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [intention, setIntention] = useState("")
+  const [activeTask, setActiveTask] = useState<Task | null>(null) // Task the current tunnel is for
+  const [projects, setProjects] = useState<Project[]>([])
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null)
+  const [cycleSessions, setCycleSessions] = useState(0) // Completed tunnels since the last long break
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS)
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(DEFAULT_SHORTCUTS)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [showPalette, setShowPalette] = useState(false)
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([])
+  const [themePreview, setThemePreview] = useState<FieldTheme | null>(null) // Unsaved draft from the theme editor
+  const [showThemeEditor, setShowThemeEditor] = useState(false)
+  const [themeSchedule, setThemeSchedule] = useState<ThemeSchedule>(DEFAULT_THEME_SCHEDULE)
+  const [soundSettings, setSoundSettings] = useState<SoundSettings>(DEFAULT_SOUND_SETTINGS)
+  const [customTracks, setCustomTracks] = useState<AmbientTrack[]>([])
+
+  // Session timing lives in the timer engine - see lib/timer-engine.ts and lib/timer-reducer.ts
+  const { snapshot: timer, snapshotRef: timerRef, send, subscribe } = useTimerEngine()
+  const state = timer.state
+  const breakKind = timer.breakKind
+
+  // A running session keeps the duration it was launched with
+  const workDuration = state === "idle" ? minutesToMs(settings.workMinutes) : timer.workDuration
+  const longBreakDue = cycleSessions >= settings.longBreakInterval
+  const goalProgress = useMemo(
+    () => dailyProgress(historyRecords, settings.dailyGoal, settings.dayRolloverHour),
+    // state is a dependency so a day rollover is picked up whenever the screen changes
+    [historyRecords, settings.dailyGoal, settings.dayRolloverHour, state],
+  )
+  const accelerationTime = workDuration * CONFIG.ACCELERATION_RATIO
+
+  // Get current theme colors safely - a draft being edited is drawn in its place
+  const theme = useMemo<FieldTheme>(
+    () => themePreview ?? findTheme(currentTheme, customThemes) ?? THEMES[DEFAULT_THEME],
+    [themePreview, currentTheme, customThemes],
+  )
+  // A FIELD can override the starfield defaults - REDLINE runs hot, SILT calm
+  const numStars = theme.starfield?.numStars ?? CONFIG.NUM_STARS
+  const starSpeedMax = theme.starfield?.starSpeedMax ?? CONFIG.STAR_SPEED_MAX
+  const trailLengthBase = theme.starfield?.trailLengthBase ?? CONFIG.TRAIL_LENGTH_BASE
+  const twinkleScale = theme.starfield?.twinkle ?? CONFIG.TWINKLE_SCALE
+
+  // The mixer layer for this phase, and the track it plays at that track's own volume
+  const tracks = useMemo(() => [...BUILT_IN_TRACKS, ...customTracks], [customTracks])
+  const mixerLayer = layerForState(state)
+  const layerTrack = trackForLayer(soundSettings, mixerLayer, currentTheme, tracks)
+  const layerTrackVolume = layerTrack ? trackVolume(soundSettings, layerTrack.id) : 0
 
   // Helper function to convert hex to RGB
   const hexToRgb = (hex: string): string => {
@@ -128,61 +257,33 @@ export default function WarPomodoro() {
     return "255, 255, 255" // fallback to white
   }
 
-  // Initialize stars with randomization - defined before it's used in useEffect
+  // Initialize stars with randomization - defined before it's used in useEffect.
+  // Sized to the FIELD in place, so switching mid-warp doesn't reset the field
   const initStars = useCallback(() => {
-    const stars: Star[] = []
-    for (let i = 0; i < CONFIG.NUM_STARS; i++) {
-      const baseSize = Math.random() * 2 + 0.5 // Random base size between 0.5 and 2.5
-      stars.push({
-        x: (Math.random() - 0.5) * 2000,
-        y: (Math.random() - 0.5) * 2000,
-        z: Math.random() * 1000,
-        hasValidPrev: false,
-        twinkle: Math.random() * Math.PI * 2, // Random starting phase
-        twinkleSpeed: 0.01 + Math.random() * 0.02, // More varied speeds
-        twinkleIntensity: 0.3 + Math.random() * 0.4, // Random intensity for each star
-        baseSize: baseSize,
-        colorType: Math.random() > 0.7 ? "secondary" : "primary",
-      })
+    const stars = starsRef.current
+    if (stars.length > numStars) {
+      stars.length = numStars
+    }
+    while (stars.length < numStars) {
+      stars.push(createStar())
+    }
+  }, [numStars])
+
+  // Write a finished session to the history log - the engine reports each session once
+  const recordSession = useCallback((session: SessionSummary) => {
+    const record: SessionRecord = {
+      id: createId(),
+      ...session,
+      ...(activeTask && { intention: activeTask.title, taskId: activeTask.id }),
+      ...(sessionProjectRef.current && { projectId: sessionProjectRef.current }),
     }
-    starsRef.current = stars
-  }, [])
 
-  // Audio fade-out function
-  const fadeOutAudio = useCallback(
-    (audio: HTMLAudioElement | null) => {
-      if (!audio || !ambientEnabled) return
-
-      // If we have Web Audio API set up
-      if (audioContextRef.current && audioGainRef.current) {
-        const now = audioContextRef.current.currentTime
-        audioGainRef.current.gain.setValueAtTime(audioGainRef.current.gain.value, now)
-        audioGainRef.current.gain.linearRampToValueAtTime(0, now + CONFIG.AUDIO_FADE_DURATION)
-
-        // Stop the audio after fade completes
-        setTimeout(() => {
-          if (audio) {
-            audio.pause()
-            audio.currentTime = 0
-          }
-        }, CONFIG.AUDIO_FADE_DURATION * 1000)
-      } else {
-        // Fallback for browsers without Web Audio API
-        let volume = audio.volume
-        const fadeInterval = setInterval(() => {
-          volume = Math.max(0, volume - 0.05)
-          audio.volume = volume
-
-          if (volume <= 0) {
-            clearInterval(fadeInterval)
-            audio.pause()
-            audio.currentTime = 0
-          }
-        }, 100)
-      }
-    },
-    [ambientEnabled],
-  )
+    addSessionRecord(record)
+      .then(() => setHistoryRecords((prev) => [...prev, record]))
+      .catch((error) => {
+        console.warn("Failed to save session record:", error)
+      })
+  }, [activeTask])
 
   // Animation loop - defined after initStars
   const animate = useCallback(() => {
@@ -197,15 +298,12 @@ export default function WarPomodoro() {
     const centerX = width / 2
     const centerY = height / 2
 
-    // Get current theme safely
-    const theme = THEMES[currentTheme] || THEMES.CORE
-
-    // Clear canvas with theme background
-    ctx.fillStyle = theme.background
-    ctx.fillRect(0, 0, width, height)
+    // Clear canvas with theme background - gradient and nebula included
+    drawFieldBackground(ctx, theme, width, height)
 
     const currentTime = Date.now()
-    const elapsed = currentTime - startTimeRef.current
+    const timing = timerRef.current
+    const elapsed = currentTime - timing.segmentStart
     const time = currentTime / 1000 // Current time in seconds for smooth animations
 
     let speed = CONFIG.STAR_SPEED_MIN
@@ -220,36 +318,20 @@ export default function WarPomodoro() {
         speed = CONFIG.CRUISE_SPEED
       } else {
         // Calculate total elapsed time including previous work before break
-        const totalElapsed = workElapsedRef.current + elapsed
-        const progress = Math.min(totalElapsed / CONFIG.WORK_DURATION, 1)
-
+        const totalElapsed = timing.workElapsed + elapsed
         // Smooth acceleration curve that reaches max speed over configured time
-        const accelerationProgress = Math.min(totalElapsed / CONFIG.ACCELERATION_TIME, 1)
+        const accelerationProgress = Math.min(totalElapsed / accelerationTime, 1)
 
         // Use a more aggressive curve for dramatic acceleration
         const easedProgress = accelerationProgress * accelerationProgress * (3 - 2 * accelerationProgress)
         const dramaticProgress = easedProgress * easedProgress
 
         // Scale from idle speed to maximum speed
-        speed = CONFIG.IDLE_SPEED + (CONFIG.STAR_SPEED_MAX - CONFIG.IDLE_SPEED) * dramaticProgress
-
-        // Check if work session is complete (full 25 minutes)
-        if (totalElapsed >= CONFIG.WORK_DURATION) {
-          setState("workComplete")
-          setFadeOpacity(1)
-          setShowControls(false)
-          // Only count completed sessions (full 25 minutes)
-          const newCompletedSessions = completedSessions + 1
-          setCompletedSessions(newCompletedSessions)
-          localStorage.setItem("warpomodoro-completed-sessions", newCompletedSessions.toString())
-          workElapsedRef.current = 0
-
-          // Fade out audio if enabled
-          if (ambientEnabled) {
-            fadeOutAudio(audioRef.current)
-          }
-        }
+        speed = CONFIG.IDLE_SPEED + (starSpeedMax - CONFIG.IDLE_SPEED) * dramaticProgress
       }
+    } else if (state === "paused") {
+      // Hold the velocity the tunnel had when the countdown froze
+      speed = holdSpeedRef.current
     } else if (state === "workComplete") {
       // Keep moving slowly and add twinkling
       speed = 0.2
@@ -263,27 +345,35 @@ export default function WarPomodoro() {
         const easedExit = 1 - Math.pow(1 - exitProgress, 3)
 
         // Calculate the speed we were at when break started
-        const totalElapsed = workElapsedRef.current
-        const accelerationProgress = Math.min(totalElapsed / CONFIG.ACCELERATION_TIME, 1)
+        const totalElapsed = timing.workElapsed
+        const accelerationProgress = Math.min(totalElapsed / accelerationTime, 1)
         const easedProgress = accelerationProgress * accelerationProgress * (3 - 2 * accelerationProgress)
         const dramaticProgress = easedProgress * easedProgress
-        const startingSpeed = CONFIG.IDLE_SPEED + (CONFIG.STAR_SPEED_MAX - CONFIG.IDLE_SPEED) * dramaticProgress
+        const startingSpeed = CONFIG.IDLE_SPEED + (starSpeedMax - CONFIG.IDLE_SPEED) * dramaticProgress
 
         speed = startingSpeed * (1 - easedExit * 0.98) // Decelerate to 2% of original
+      } else if (breakKind === "long") {
+        speed = CONFIG.LONG_BREAK_DRIFT_SPEED
       } else {
         speed = 0.05 // Very slow after exit animation
       }
-
-      if (elapsed >= CONFIG.BREAK_DURATION) {
-        setState("breakComplete")
-      }
     } else if (state === "breakComplete") {
       speed = 0.05
     }
 
+    currentSpeedRef.current = speed
+
     // Calculate trail intensity based on speed
-    const trailIntensity = Math.min(speed / CONFIG.STAR_SPEED_MAX, 1.0)
-    const maxTrailLength = CONFIG.TRAIL_LENGTH_BASE + trailIntensity * CONFIG.TRAIL_LENGTH_MULTIPLIER
+    const trailIntensity = Math.min(speed / starSpeedMax, 1.0)
+    const maxTrailLength = trailLengthBase + trailIntensity * CONFIG.TRAIL_LENGTH_MULTIPLIER
+
+    // Generative tracks rise with the tunnel
+    mixerRef.current?.voice()?.follow?.(trailIntensity)
+
+    // Audio-reactive mode: low-end swells nudge the stars along. Applied after the engine
+    // follows the speed, so the sound doesn't feed back into itself.
+    const reaction = readReactionRef.current?.() ?? NO_REACTION
+    speed *= 1 + REACTION_LIMITS.speed * reaction.pulse
 
     // Update and draw stars
     starsRef.current.forEach((star) => {
@@ -308,6 +398,9 @@ export default function WarPomodoro() {
           star.x += deltaX * collapseForce * 0.01
           star.y += deltaY * collapseForce * 0.01
           star.z -= speed
+        } else if (state === "break" && breakKind === "long") {
+          // Long breaks drift gently forward so the field feels alive but calm
+          star.z -= speed
         } else {
           // Stars remain stationary during break - no drift motion
           // Do nothing - stars stay in their current positions
@@ -338,10 +431,11 @@ export default function WarPomodoro() {
         // Get star color based on type
         const starColor = star.colorType === "secondary" ? theme.starsSecondary : theme.stars
 
-        // Calculate twinkling effect for workComplete state
+        // Calculate twinkling effect for workComplete state and long breaks
+        const isTwinkling = state === "workComplete" || (state === "break" && breakKind === "long" && !isExitingWarp)
         let size = baseSize
         let opacity = 1
-        if (state === "workComplete" && star.twinkle !== undefined && star.twinkleIntensity !== undefined) {
+        if (isTwinkling && twinkleScale > 0 && star.twinkle !== undefined && star.twinkleIntensity !== undefined) {
           // Use multiple sine waves with different frequencies for more natural twinkling
           const twinkle1 = Math.sin(star.twinkle)
           const twinkle2 = Math.sin(star.twinkle * 1.5) * 0.5
@@ -350,8 +444,8 @@ export default function WarPomodoro() {
           // Combine the waves for a more complex pattern
           const combinedTwinkle = (twinkle1 + twinkle2 + twinkle3) / 2.5
           
-          // Apply the twinkling effect
-          const twinkleFactor = 0.5 + (combinedTwinkle + 1) * star.twinkleIntensity
+          // Apply the twinkling effect, swinging around its unscaled midpoint by the FIELD's twinkle
+          const twinkleFactor = 1 + ((combinedTwinkle + 1) * star.twinkleIntensity - 0.5) * twinkleScale
           size = baseSize * twinkleFactor
           opacity = 0.4 + twinkleFactor * 0.6
 
@@ -363,13 +457,20 @@ export default function WarPomodoro() {
           starColor = adjustedColor
         }
 
+        // Audio-reactive twinkle, each star on its own phase
+        if (reaction.level > 0 && star.twinkle !== undefined) {
+          const shimmer = 1 + REACTION_LIMITS.twinkle * reaction.level * Math.sin(star.twinkle)
+          size *= shimmer
+          opacity = Math.min(opacity * shimmer, 1)
+        }
+
         // Enhanced trail drawing with motion blur effect
         if (
           speed > 0.5 &&
           star.hasValidPrev &&
           star.prevX !== undefined &&
           star.prevY !== undefined &&
-          (state === "working" || isExitingWarp)
+          (state === "working" || state === "paused" || isExitingWarp)
         ) {
           const distance = Math.sqrt(Math.pow(x - star.prevX, 2) + Math.pow(y - star.prevY, 2))
 
@@ -380,10 +481,10 @@ export default function WarPomodoro() {
 
             // Enhanced trail with gradient effect for motion blur
             const gradient = ctx.createLinearGradient(star.prevX, star.prevY, x, y)
-            const baseOpacity = Math.min(speed / 8, 0.95)
+            const baseOpacity = Math.min((speed / 8) * (1 + REACTION_LIMITS.trail * reaction.level), 0.95)
 
-            // Parse star color for gradient
-            const starColorRgb = hexToRgb(starColor)
+            // Parse trail color for gradient - the theme's trail colour or the star's own
+            const starColorRgb = hexToRgb(theme.trail ?? starColor)
 
             if (isExitingWarp) {
               // During exit, trails fade more dramatically
@@ -434,10 +535,86 @@ export default function WarPomodoro() {
     }
 
     animationRef.current = requestAnimationFrame(animate)
-  }, [state, completedSessions, currentTheme, fadeOutAudio])
+  }, [state, breakKind, cruiseMode, theme, starSpeedMax, trailLengthBase, twinkleScale, accelerationTime, timerRef])
+
+  // Notify and chime at a session boundary, as far as the user opted in
+  const raiseAlert = useCallback(
+    (kind: AlertKind, title: string, body: string) => {
+      if (alertSettings.notifications) {
+        showNotification(title, body)
+      }
+      const context = audioContextRef.current
+      if (alertSettings.chimes && context && context.state !== "closed") {
+        context
+          .resume()
+          .then(() => playChime(context, kind, alertSettings.chimeVolume))
+          .catch((error) => {
+            console.warn("Chime failed:", error)
+          })
+      }
+    },
+    [alertSettings],
+  )
+
+  // Finish the tunnel: count it, log it and drop out of warp
+  const completeWork = useCallback(
+    (session: SessionSummary) => {
+      setFadeOpacity(1)
+      setShowControls(false)
+      // Only count completed sessions (full configured duration)
+      const newCompletedSessions = completedSessions + 1
+      setCompletedSessions(newCompletedSessions)
+      localStorage.setItem("warpomodoro-completed-sessions", newCompletedSessions.toString())
+      // Advance the long-break cycle, holding at full until the long break is taken
+      const newCycleSessions = Math.min(cycleSessions + 1, settings.longBreakInterval)
+      setCycleSessions(newCycleSessions)
+      localStorage.setItem("warpomodoro-cycle-sessions", newCycleSessions.toString())
+      recordSession(session)
+      raiseAlert(
+        "workComplete",
+        "EXIT COMPLETE.",
+        `${Math.round(session.focusedTime / 60000)}-minute tunnel finished${activeTask ? `: ${activeTask.title}` : ""}`,
+      )
+
+      // Drop out of warp - the mixer crossfades to the break layer
+      mixerRef.current?.voice()?.dropOut?.()
+    },
+    [completedSessions, cycleSessions, settings.longBreakInterval, recordSession, raiseAlert, activeTask],
+  )
+
+  // React to the timer engine - boundaries are found there, from the wall clock
+  const handleTimerEvent = useCallback(
+    (event: TimerEvent) => {
+      switch (event.type) {
+        case "state":
+          // The snapshot effect below saves active states; anything else ends the saved session
+          if (!isActiveSessionState(event.snapshot.state)) clearActiveSession()
+          break
+        case "workComplete":
+          completeWork(event.session)
+          break
+        case "breakComplete":
+          raiseAlert(
+            "breakComplete",
+            event.breakKind === "surface" ? "SURFACE OVER" : "BREAK OVER",
+            event.breakKind === "surface" ? "Time to resume your session." : "Ready for the next launch.",
+          )
+          break
+        case "breakHalfway":
+          raiseAlert("breakHalfway", "HALFWAY THROUGH THE BREAK", `${Math.ceil(event.remaining / 60000)} min left.`)
+          break
+        case "sessionEnded":
+          recordSession(event.session)
+          break
+      }
+    },
+    [completeWork, recordSession, raiseAlert],
+  )
+
+  useEffect(() => subscribe(handleTimerEvent), [subscribe, handleTimerEvent])
 
   // Load sessions, theme, and ambient setting from localStorage
-  useEffect(() => {
+  const loadSavedState = useCallback(() => {
     const savedSessions = localStorage.getItem("warpomodoro-sessions")
     if (savedSessions) {
       setSessions(Number.parseInt(savedSessions, 10))
@@ -448,99 +625,118 @@ export default function WarPomodoro() {
       setCompletedSessions(Number.parseInt(savedCompletedSessions, 10))
     }
 
-    const savedTheme = localStorage.getItem("warpomodoro-theme") as ThemeKey
-    // Only set the theme if it exists in our THEMES object
-    if (savedTheme && THEMES[savedTheme]) {
+    const savedCycleSessions = localStorage.getItem("warpomodoro-cycle-sessions")
+    if (savedCycleSessions) {
+      setCycleSessions(Number.parseInt(savedCycleSessions, 10))
+    }
+
+    const savedCustomThemes = loadCustomThemes()
+    setCustomThemes(savedCustomThemes)
+
+    setThemeSchedule(loadThemeSchedule())
+    setSoundSettings(loadSoundSettings())
+
+    const savedTheme = localStorage.getItem("warpomodoro-theme")
+    // Only set the theme if it's a built-in or a saved custom FIELD
+    if (savedTheme && findTheme(savedTheme, savedCustomThemes)) {
       setCurrentTheme(savedTheme)
     }
 
     const savedAmbient = localStorage.getItem("warpomodoro-ambient")
-    if (savedAmbient === "true") {
-      setAmbientEnabled(true)
+    if (savedAmbient !== null) {
+      setAmbientEnabled(savedAmbient === "true")
+    }
+
+    setSettings(loadSettings())
+    setAlertSettings(loadAlertSettings())
+    setShortcuts(loadShortcuts())
+    setTasks(loadTasks())
+
+    const savedProjects = loadProjects()
+    setProjects(savedProjects)
+    const savedProjectId = localStorage.getItem("warpomodoro-project")
+    if (savedProjectId && savedProjects.some((project) => project.id === savedProjectId)) {
+      setSelectedProjectId(savedProjectId)
     }
+
+    getSessionRecords()
+      .then(setHistoryRecords)
+      .catch((error) => {
+        console.warn("Failed to load session history:", error)
+      })
+
+    setSavedStateLoaded(true)
   }, [])
 
-  // Initialize audio with Web Audio API for better control
-  const initAudio = useCallback(() => {
-    if (!audioRef.current) {
-      audioRef.current = new Audio("/sounds/ambient.mp3")
-      audioRef.current.loop = true
-      audioRef.current.volume = CONFIG.AMBIENT_VOLUME
-      audioRef.current.preload = "auto"
+  useEffect(() => {
+    loadSavedState()
+  }, [loadSavedState])
 
-      // Set up Web Audio API for better control over audio
-      try {
-        const AudioContext = window.AudioContext || (window as any).webkitAudioContext
-        if (AudioContext) {
-          audioContextRef.current = new AudioContext()
-          audioSourceRef.current = audioContextRef.current.createMediaElementSource(audioRef.current)
-          audioGainRef.current = audioContextRef.current.createGain()
-
-          // Connect nodes
-          audioSourceRef.current.connect(audioGainRef.current)
-          audioGainRef.current.connect(audioContextRef.current.destination)
-
-          // Set initial gain
-          audioGainRef.current.gain.value = CONFIG.AMBIENT_VOLUME
-        }
-      } catch (e) {
-        console.log("Web Audio API not supported, falling back to standard audio")
+  // Restore a session that was running when the page was closed or reloaded. An overdue
+  // snapshot completes at once - without a Worker, completeWork runs synchronously inside
+  // send - so the saved counters and the session's task are applied first, a render ahead.
+  useEffect(() => {
+    if (!savedStateLoaded) return
+    const snapshot = loadActiveSession()
+    if (!snapshot) return
+
+    holdSpeedRef.current = snapshot.holdSpeed
+    sessionProjectRef.current = snapshot.projectId
+    setCruiseMode(snapshot.timer.cruiseMode)
+    setActiveTask(snapshot.task)
+    setShowControls(snapshot.timer.state === "working")
+    setPendingRestore(snapshot.timer)
+  }, [savedStateLoaded])
+
+  useEffect(() => {
+    if (!pendingRestore) return
+    setPendingRestore(null)
+    send({ type: "restore", snapshot: pendingRestore })
+  }, [pendingRestore, send])
+
+  // Snapshot the running session on every transition so a reload can pick it up
+  useEffect(() => {
+    if (!isActiveSessionState(timer.state)) return
+
+    saveActiveSession({
+      timer,
+      holdSpeed: timer.state === "paused" ? holdSpeedRef.current : 0,
+      projectId: sessionProjectRef.current,
+      task: activeTask,
+    })
+  }, [timer, activeTask])
+
+  // Set up the ambient graph: the mixer's layers feed its master gain, then the analyser
+  // for the audio-reactive starfield, then the speakers
+  const initAudio = useCallback(() => {
+    if (audioContextRef.current) return
+    try {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext
+      if (AudioContext) {
+        audioContextRef.current = new AudioContext()
+        mixerRef.current = createMixer(audioContextRef.current, CONFIG.AUDIO_FADE_DURATION)
+        analyserRef.current = createAnalyser(audioContextRef.current)
+        audioGainRef.current = mixerRef.current.master
+        audioGainRef.current.connect(analyserRef.current).connect(audioContextRef.current.destination)
       }
+    } catch (e) {
+      console.log("Web Audio API not supported, ambient sound is unavailable")
     }
   }, [])
 
-  // Save ambient setting to localStorage
+  // Save ambient setting to localStorage - the session effect below starts or stops the sound
   const toggleAmbient = async () => {
     const newAmbientEnabled = !ambientEnabled
     setAmbientEnabled(newAmbientEnabled)
     localStorage.setItem("warpomodoro-ambient", newAmbientEnabled.toString())
 
-    if (newAmbientEnabled) {
+    // Use the click to unlock audio for the session effect
+    if (newAmbientEnabled && audioContextRef.current?.state === "suspended") {
       try {
-        // Ensure audio is initialized
-        if (!audioRef.current) {
-          initAudio()
-        }
-
-        // Resume AudioContext if suspended
-        if (audioContextRef.current?.state === "suspended") {
-          await audioContextRef.current.resume()
-        }
-
-        // Reset audio to beginning
-        if (audioRef.current) {
-          audioRef.current.currentTime = 0
-
-          // Set gain or fallback volume
-          if (audioGainRef.current) {
-            const now = audioContextRef.current?.currentTime || 0
-            audioGainRef.current.gain.setValueAtTime(0, now)
-            audioGainRef.current.gain.linearRampToValueAtTime(CONFIG.AMBIENT_VOLUME, now + CONFIG.AUDIO_FADE_DURATION)
-          } else {
-            audioRef.current.volume = CONFIG.AMBIENT_VOLUME
-          }
-
-          // Try to play audio
-          const playPromise = audioRef.current.play()
-          if (playPromise !== undefined) {
-            playPromise.catch((error) => {
-              console.warn("Playback failed:", error)
-              // Try again on next user interaction
-              const retryPlay = () => {
-                if (audioRef.current && newAmbientEnabled) {
-                  audioRef.current.play().catch(() => {})
-                }
-              }
-              document.addEventListener("click", retryPlay, { once: true })
-            })
-          }
-        }
+        await audioContextRef.current.resume()
       } catch (e) {
         console.warn("Error resuming audio:", e)
       }
-    } else if (audioRef.current) {
-      // Fade out audio if we're turning it off
-      fadeOutAudio(audioRef.current)
     }
   }
 
@@ -549,65 +745,63 @@ export default function WarPomodoro() {
     initAudio()
 
     return () => {
-      if (audioRef.current) {
-        fadeOutAudio(audioRef.current)
-      }
+      mixerRef.current?.close()
+      mixerRef.current = null
+      analyserRef.current = null
+      readReactionRef.current = null
 
       // Clean up Web Audio API
       if (audioContextRef.current && audioContextRef.current.state !== "closed") {
         audioContextRef.current.close()
       }
+      audioContextRef.current = null
     }
-  }, [initAudio, fadeOutAudio])
+  }, [initAudio])
 
-  // Handle ambient audio during sessions
+  // Crossfade to the layer for this phase - a new FIELD track swaps in mid-tunnel too
   useEffect(() => {
-    const playAudio = async () => {
-      if (audioRef.current && state === "working" && ambientEnabled) {
-        try {
-          // Resume AudioContext if it's suspended (browser autoplay policy)
-          if (audioContextRef.current && audioContextRef.current.state === "suspended") {
-            await audioContextRef.current.resume()
-          }
+    const mixer = mixerRef.current
+    if (!mixer) return
+    if (!ambientEnabled || !layerTrack) {
+      mixer.silence()
+      return
+    }
+    mixer.play(mixerLayer, layerTrack, layerTrackVolume).catch((error) => {
+      console.log("Playback failed:", error)
+      // If autoplay fails, try to play on next user interaction
+      document.addEventListener("click", () => mixer.voice()?.start().catch(() => {}), { once: true })
+    })
+  }, [ambientEnabled, mixerLayer, layerTrack, layerTrackVolume])
 
-          // Set gain to full volume
-          if (audioGainRef.current) {
-            audioGainRef.current.gain.value = CONFIG.AMBIENT_VOLUME
-          } else {
-            audioRef.current.volume = CONFIG.AMBIENT_VOLUME
-          }
+  // Volume sliders apply to what's playing straight away
+  useEffect(() => {
+    if (layerTrack) mixerRef.current?.setTrackVolume(layerTrack.id, layerTrackVolume)
+  }, [layerTrack, layerTrackVolume])
 
-          // Only try to play if not already playing
-          if (audioRef.current.paused) {
-            audioRef.current.currentTime = 0
-            try {
-              const playPromise = audioRef.current.play()
-              if (playPromise !== undefined) {
-                playPromise.catch(error => {
-                  console.log("Playback failed:", error)
-                  // If autoplay fails, try to play on next user interaction
-                  document.addEventListener('click', () => {
-                    audioRef.current?.play()
-                  }, { once: true })
-                })
-              }
-            } catch (error) {
-              console.log("Audio play failed:", error)
-            }
-          }
-        } catch (error) {
-          console.log("Audio play failed:", error)
-        }
-      } else if (audioRef.current && state !== "working") {
-        // Only fade out if we're not in working state
-        if (ambientEnabled && !audioRef.current.paused) {
-          fadeOutAudio(audioRef.current)
-        }
-      }
+  useEffect(() => {
+    for (const layer of MIXER_LAYERS) {
+      mixerRef.current?.setLayerVolume(layer, soundSettings.layerVolumes[layer])
     }
+  }, [soundSettings.layerVolumes])
 
-    playAudio()
-  }, [state, ambientEnabled, fadeOutAudio])
+  useEffect(() => {
+    mixerRef.current?.setMasterVolume(CONFIG.AMBIENT_VOLUME * soundSettings.master)
+  }, [soundSettings.master])
+
+  // Only read the analyser while the starfield follows the mix
+  useEffect(() => {
+    const analyser = analyserRef.current
+    readReactionRef.current = soundSettings.reactiveStars && analyser ? createReactionReader(analyser) : null
+  }, [soundSettings.reactiveStars])
+
+  // User sound files live in IndexedDB
+  useEffect(() => {
+    getCustomTracks()
+      .then(setCustomTracks)
+      .catch((error) => {
+        console.warn("Failed to load sound files:", error)
+      })
+  }, [])
 
   // Add a user interaction handler to unlock audio
   useEffect(() => {
@@ -684,64 +878,223 @@ export default function WarPomodoro() {
     }
   }, [animate])
 
-  // Save theme to localStorage
-  const changeTheme = (theme: ThemeKey) => {
-    if (THEMES[theme]) {
-      setCurrentTheme(theme)
-      localStorage.setItem("warpomodoro-theme", theme)
+  // Declared ahead of the FIELD schedule so it sees custom FIELDS loaded in the same pass
+  useEffect(() => {
+    customThemesRef.current = customThemes
+  }, [customThemes])
+
+  // Save theme to localStorage - custom FIELDS are read through the ref, so scheduled switches
+  // made from an older render still find them
+  const changeTheme = (key: string) => {
+    if (findTheme(key, customThemesRef.current)) {
+      setCurrentTheme(key)
+      localStorage.setItem("warpomodoro-theme", key)
+    }
+  }
+
+  const updateSoundSettings = (newSoundSettings: SoundSettings) => {
+    setSoundSettings(newSoundSettings)
+    saveSoundSettings(newSoundSettings)
+  }
+
+  // Store the file and make it this FIELD's track
+  const addSoundFile = async (file: File) => {
+    const track = await addCustomTrack(file)
+    setCustomTracks((prev) => [...prev, track])
+    updateSoundSettings({ ...soundSettings, trackByTheme: { ...soundSettings.trackByTheme, [currentTheme]: track.id } })
+  }
+
+  // FIELDS that used it fall back to the default track
+  const removeSoundTrack = (id: string) => {
+    removeCustomTrack(id)
+      .then(() => setCustomTracks((prev) => prev.filter((track) => track.id !== id)))
+      .catch((error) => {
+        console.warn("Failed to remove sound file:", error)
+      })
+  }
+
+  const updateThemeSchedule = (newThemeSchedule: ThemeSchedule) => {
+    setThemeSchedule(newThemeSchedule)
+    saveThemeSchedule(newThemeSchedule)
+  }
+
+  // Deleting the FIELD in use falls back to CORE
+  const updateCustomThemes = (newCustomThemes: CustomTheme[]) => {
+    setCustomThemes(newCustomThemes)
+    customThemesRef.current = newCustomThemes // The editor selects a new FIELD straight after saving it
+    saveCustomThemes(newCustomThemes)
+    if (!findTheme(currentTheme, newCustomThemes)) {
+      setCurrentTheme(DEFAULT_THEME)
+      localStorage.setItem("warpomodoro-theme", DEFAULT_THEME)
+    }
+  }
+
+  // Automatic FIELDS - by time of day, or following the OS colour scheme. Either goes through
+  // changeTheme like a click; only a schedule or OS change re-applies, so a manual pick holds until then.
+  useEffect(() => {
+    if (themeSchedule.mode === "system") {
+      return watchColorScheme((scheme) => changeTheme(scheme === "dark" ? themeSchedule.dark : themeSchedule.light))
+    }
+    if (themeSchedule.mode !== "schedule") return
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const applyWindow = () => {
+      const now = new Date()
+      const active = activeThemeWindow(themeSchedule.windows, now)
+      if (active) {
+        changeTheme(active.theme)
+      }
+      const delay = msUntilNextThemeWindow(themeSchedule.windows, now)
+      if (delay !== null) {
+        timeout = setTimeout(applyWindow, delay)
+      }
+    }
+
+    applyWindow()
+    return () => clearTimeout(timeout)
+  }, [themeSchedule])
+
+  // Save settings to localStorage
+  const updateSettings = (newSettings: TimerSettings) => {
+    setSettings(newSettings)
+    saveSettings(newSettings)
+    setShowSettings(false)
+  }
+
+  const updateAlertSettings = (newAlertSettings: AlertSettings) => {
+    setAlertSettings(newAlertSettings)
+    saveAlertSettings(newAlertSettings)
+  }
+
+  // Play every chime in turn at the chosen volume
+  const testChimes = async () => {
+    const context = audioContextRef.current
+    if (!context || context.state === "closed") return
+    await context.resume()
+    const kinds: AlertKind[] = ["workComplete", "breakComplete", "breakHalfway"]
+    kinds.forEach((kind, index) => {
+      setTimeout(() => playChime(context, kind, alertSettings.chimeVolume), index * 1500)
+    })
+  }
+
+  const updateShortcuts = (newShortcuts: ShortcutMap) => {
+    setShortcuts(newShortcuts)
+    saveShortcuts(newShortcuts)
+  }
+
+  const updateTasks = (newTasks: Task[]) => {
+    setTasks(newTasks)
+    saveTasks(newTasks)
+  }
+
+  // Mark the finished tunnel's task done and clear it from the picker
+  const markActiveTaskDone = () => {
+    if (!activeTask) return
+    updateTasks(completeTask(tasks, activeTask.id))
+    setIntention("")
+  }
+
+  // Save the selected project so the next launch defaults to it
+  const selectProject = (id: string | null) => {
+    setSelectedProjectId(id)
+    if (id) {
+      localStorage.setItem("warpomodoro-project", id)
+    } else {
+      localStorage.removeItem("warpomodoro-project")
+    }
+  }
+
+  const addProject = (name: string, color: string) => {
+    const { projects: newProjects, project } = createProject(projects, name, color)
+    setProjects(newProjects)
+    saveProjects(newProjects)
+    selectProject(project.id)
+  }
+
+  // Past sessions keep their project id; the stats label them as removed
+  const deleteProject = (id: string) => {
+    const newProjects = removeProject(projects, id)
+    setProjects(newProjects)
+    saveProjects(newProjects)
+    if (selectedProjectId === id) {
+      selectProject(null)
+    }
+  }
+
+  const exportData = async (format: ExportFormat) => {
+    try {
+      const { contents, mimeType } = buildExport(await getSessionRecords(), format)
+      downloadFile(contents, `warpomodoro-${new Date().toISOString().slice(0, 10)}.${format}`, mimeType)
+    } catch (error) {
+      console.warn("Export failed:", error)
     }
   }
 
+  // Merge an export file into storage, then reload everything from it
+  const importData = async (file: File): Promise<ImportResult> => {
+    const result = parseImport(await file.text(), file.name, await getSessionRecords())
+    await addSessionRecords(result.sessions)
+    writePreferences(result.preferences)
+    loadSavedState()
+    return result
+  }
+
+  // Load the session history fresh each time a history view opens
+  const loadHistory = () => {
+    getSessionRecords()
+      .then(setHistoryRecords)
+      .catch((error) => {
+        console.warn("Failed to load session history:", error)
+      })
+  }
+
+  const openStats = () => {
+    setShowStats(true)
+    loadHistory()
+  }
+
+  const openCalendar = () => {
+    setShowCalendar(true)
+    loadHistory()
+  }
+
   // Handle break action
   const takeBreak = useCallback(() => {
     if (state === "working") {
-      // Store current work elapsed time
-      workElapsedRef.current = Date.now() - startTimeRef.current
-
-      // Store current speed for break transition
-      const elapsed = workElapsedRef.current
-      const progress = Math.min(elapsed / CONFIG.WORK_DURATION, 1)
-      const rampUpTime = 5000 // Very quick ramp to 5 seconds
-
-      let currentSpeed = CONFIG.STAR_SPEED_MIN
-      if (elapsed < rampUpTime) {
-        const rampProgress = elapsed / rampUpTime
-        const easedRamp = rampProgress * rampProgress * (3 - 2 * rampProgress)
-        currentSpeed = CONFIG.IDLE_SPEED + (CONFIG.STAR_SPEED_BASE - CONFIG.IDLE_SPEED) * easedRamp
-      } else {
-        const remainingProgress = (elapsed - rampUpTime) / (CONFIG.WORK_DURATION - rampUpTime)
-        const easedProgress = Math.min(remainingProgress, 1)
-        // More aggressive acceleration curve
-        const aggressiveProgress = easedProgress * easedProgress * easedProgress
-        currentSpeed = CONFIG.STAR_SPEED_BASE + (CONFIG.STAR_SPEED_MAX - CONFIG.STAR_SPEED_BASE) * aggressiveProgress
-      }
-
-      breakStartSpeedRef.current = currentSpeed
-      setState("break")
-      startTimeRef.current = Date.now()
+      send({ type: "surface", breakDuration: minutesToMs(settings.breakMinutes) })
       setShowControls(false)
 
-      // Fade out audio if enabled
-      if (ambientEnabled) {
-        fadeOutAudio(audioRef.current)
-      }
+      // Drop out of warp - the mixer crossfades to the break layer
+      mixerRef.current?.voice()?.dropOut?.()
+    }
+  }, [state, send, settings.breakMinutes])
+
+  // Freeze the countdown - the starfield keeps its current velocity
+  const pauseWork = useCallback(() => {
+    if (state === "working") {
+      holdSpeedRef.current = currentSpeedRef.current
+      send({ type: "hold" })
+      setShowControls(false)
+    }
+  }, [state, send])
+
+  // Continue the countdown exactly where it was held
+  const resumeFromPause = useCallback(() => {
+    if (state === "paused") {
+      send({ type: "resume" })
+      setShowControls(true)
+      setControlsVisible(true)
     }
-  }, [state, ambientEnabled, fadeOutAudio])
+  }, [state, send])
 
   // Handle end session action (early exit - doesn't count as completed)
   const endSession = useCallback(() => {
-    if (state === "working") {
-      setState("idle")
+    if (state === "working" || state === "paused") {
+      send({ type: "disengage" })
       setFadeOpacity(0)
       setShowControls(false)
-      workElapsedRef.current = 0 // Reset work elapsed time
-
-      // Fade out audio if enabled
-      if (ambientEnabled) {
-        fadeOutAudio(audioRef.current)
-      }
     }
-  }, [state, ambientEnabled, fadeOutAudio])
+  }, [state, send])
 
   // Format time for display
   const formatTime = (milliseconds: number) => {
@@ -753,50 +1106,47 @@ export default function WarPomodoro() {
 
   // Get current timer display
   const getCurrentTime = () => {
-    if (state === "working") {
-      const currentElapsed = Date.now() - startTimeRef.current
-      const totalElapsed = workElapsedRef.current + currentElapsed
-      const remaining = Math.max(CONFIG.WORK_DURATION - totalElapsed, 0)
-      return formatTime(remaining)
-    } else if (state === "break") {
-      // Show paused work session time during break
-      const totalElapsed = workElapsedRef.current
-      const remaining = Math.max(CONFIG.WORK_DURATION - totalElapsed, 0)
+    if (state === "working" || state === "break" || state === "paused") {
+      // During a break or hold the work session time stays where it was left
+      const remaining = Math.max(workDuration - workElapsedAt(timer, Date.now()), 0)
       return formatTime(remaining)
     }
-    return "25:00"
+    return formatTime(workDuration)
   }
 
   // Calculate progress percentage
   const getProgress = () => {
-    if (state === "working") {
-      const currentElapsed = Date.now() - startTimeRef.current
-      const totalElapsed = workElapsedRef.current + currentElapsed
-      return Math.min((totalElapsed / CONFIG.WORK_DURATION) * 100, 100)
-    } else if (state === "break") {
-      // Show paused work session progress during break
-      const totalElapsed = workElapsedRef.current
-      return Math.min((totalElapsed / CONFIG.WORK_DURATION) * 100, 100)
+    if (state === "working" || state === "break" || state === "paused") {
+      return Math.min((workElapsedAt(timer, Date.now()) / workDuration) * 100, 100)
     }
     return 0
   }
 
-  // Start work session
-  const startWork = () => {
-    setState("working")
-    startTimeRef.current = Date.now()
+  // Start work session - the palette can launch a one-off duration without touching the settings
+  const startWork = (duration = workDuration, cruise = cruiseMode) => {
+    send({ type: "start", workDuration: duration, cruiseMode: cruise })
     setFadeOpacity(0)
     setShowControls(true) // Show controls immediately
     setShowProgressHint(false)
     setControlsVisible(true)
     setShowProgress(false) // Changed to false by default
-    workElapsedRef.current = 0 // Reset for new session
+    sessionProjectRef.current = selectedProjectId
+
+    // Attach the typed or picked intention, adding it to the task list if it's new
+    if (intention.trim()) {
+      const { tasks: newTasks, task } = findOrCreateTask(tasks, intention)
+      if (newTasks !== tasks) {
+        updateTasks(newTasks)
+      }
+      setActiveTask(task)
+    } else {
+      setActiveTask(null)
+    }
   }
 
   // Resume work session after break
   const resumeWork = () => {
-    setState("working")
-    startTimeRef.current = Date.now()
+    send({ type: "resume" })
     setFadeOpacity(0)
     setShowControls(true)
     setShowProgressHint(false)
@@ -804,23 +1154,26 @@ export default function WarPomodoro() {
     setShowProgress(false) // Changed to false by default
   }
 
-  // Start break
+  // Start break after a completed tunnel - long once the cycle is full
   const startBreak = () => {
-    setState("break")
-    startTimeRef.current = Date.now()
+    if (longBreakDue) {
+      send({ type: "startBreak", kind: "long", breakDuration: minutesToMs(settings.longBreakMinutes) })
+      setCycleSessions(0)
+      localStorage.setItem("warpomodoro-cycle-sessions", "0")
+    } else {
+      send({ type: "startBreak", kind: "short", breakDuration: minutesToMs(settings.breakMinutes) })
+    }
     setFadeOpacity(0)
     setShowControls(false)
     setShowProgressHint(false)
-    breakStartSpeedRef.current = 0
   }
 
-  // Return to idle
+  // Return to idle - leaving a SURFACE break this way abandons the session
   const returnToIdle = () => {
-    setState("idle")
+    send({ type: "skip" })
     setFadeOpacity(0)
     setShowControls(false)
     setShowProgressHint(false)
-    workElapsedRef.current = 0 // Reset work elapsed time
   }
 
   const getButtonText = () => {
@@ -852,8 +1205,315 @@ export default function WarPomodoro() {
 
   const showButton = state === "idle" || state === "workComplete" || state === "breakComplete"
 
-  // Get current theme colors safely
-  const theme = THEMES[currentTheme] || THEMES.CORE
+  // Global keyboard shortcuts - each key does what the matching on-screen control does right now
+  const handleShortcut = (event: KeyboardEvent) => {
+    // Ctrl+K / Cmd+K opens the command palette from anywhere, even while typing
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === "k") {
+      event.preventDefault()
+      setShowPalette(!showPalette)
+      return
+    }
+    if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return
+    // Leave typing in the intention, project and settings fields alone
+    if ((event.target as HTMLElement | null)?.closest("input, textarea, select, [contenteditable='true']")) return
+
+    const action = findShortcutAction(shortcuts, keyFromEvent(event))
+    if (!action) return
+    event.preventDefault()
+
+    // An open overlay only answers to being closed
+    if (showShortcuts || showSettings || showStats || showCalendar || showThemeEditor) {
+      if (action === "disengage" || action === "help") {
+        setShowShortcuts(false)
+        setShowSettings(false)
+        setShowStats(false)
+        setShowCalendar(false)
+        setShowThemeEditor(false)
+      }
+      return
+    }
+
+    switch (action) {
+      case "primary":
+        if (state === "paused") {
+          resumeFromPause()
+        } else if (state === "break") {
+          if (breakKind === "surface") {
+            resumeWork()
+          } else {
+            returnToIdle()
+          }
+        } else if (showButton) {
+          handleButtonClick()
+        }
+        break
+      case "surface":
+        if (state === "working" && !cruiseMode) {
+          takeBreak()
+        } else if (state === "workComplete") {
+          startBreak()
+        }
+        break
+      case "hold":
+        if (state === "working" && !cruiseMode) {
+          pauseWork()
+        } else if (state === "paused") {
+          resumeFromPause()
+        }
+        break
+      case "disengage":
+        endSession()
+        break
+      case "cycleTheme": {
+        const themeKeys = listThemeKeys(customThemes)
+        changeTheme(themeKeys[(themeKeys.indexOf(currentTheme) + 1) % themeKeys.length])
+        break
+      }
+      case "toggleProgress":
+        setShowProgress(!showProgress)
+        break
+      case "toggleControls":
+        setControlsVisible(!controlsVisible)
+        break
+      case "toggleAmbient":
+        toggleAmbient()
+        break
+      case "help":
+        setShowShortcuts(true)
+        break
+    }
+  }
+
+  // A timed launch of any length - cruise runs have no duration to set
+  const launchFor = (minutes: number) => {
+    setCruiseMode(false)
+    startWork(minutesToMs(minutes), false)
+  }
+
+  // Close whatever overlay is open before a palette command opens another view
+  const openView = (open: () => void) => {
+    setShowShortcuts(false)
+    setShowSettings(false)
+    setShowStats(false)
+    setShowCalendar(false)
+    setShowThemeEditor(false)
+    open()
+  }
+
+  // Command palette entries - like the shortcuts, only what the current screen allows
+  const getPaletteCommands = (): PaletteCommand[] => {
+    const commands: PaletteCommand[] = []
+    const key = (action: ShortcutAction) => formatKey(shortcuts[action])
+
+    switch (state) {
+      case "idle":
+        commands.push(
+          {
+            id: "launch",
+            label: cruiseMode ? "LAUNCH CRUISE" : `LAUNCH · ${settings.workMinutes} MIN`,
+            group: "SESSION",
+            keywords: ["start", "warp", "work"],
+            shortcut: key("primary"),
+            run: () => startWork(),
+          },
+          {
+            id: "cruise",
+            label: cruiseMode ? "CRUISE MODE OFF" : "CRUISE MODE ON",
+            group: "SESSION",
+            keywords: ["toggle", "untimed"],
+            run: () => setCruiseMode(!cruiseMode),
+          },
+        )
+        break
+      case "working":
+        if (!cruiseMode) {
+          commands.push(
+            {
+              id: "surface",
+              label: `SURFACE · ${settings.breakMinutes} MIN`,
+              group: "SESSION",
+              keywords: ["break", "rest"],
+              shortcut: key("surface"),
+              run: takeBreak,
+            },
+            {
+              id: "hold",
+              label: "HOLD",
+              group: "SESSION",
+              keywords: ["pause", "freeze"],
+              shortcut: key("hold"),
+              run: pauseWork,
+            },
+          )
+        }
+        commands.push({
+          id: "disengage",
+          label: "DISENGAGE",
+          group: "SESSION",
+          keywords: ["stop", "end", "quit"],
+          shortcut: key("disengage"),
+          run: endSession,
+        })
+        break
+      case "paused":
+        commands.push(
+          {
+            id: "release",
+            label: "RELEASE",
+            group: "SESSION",
+            keywords: ["resume", "continue", "unpause"],
+            shortcut: key("hold"),
+            run: resumeFromPause,
+          },
+          {
+            id: "disengage",
+            label: "DISENGAGE",
+            group: "SESSION",
+            keywords: ["stop", "end", "quit"],
+            shortcut: key("disengage"),
+            run: endSession,
+          },
+        )
+        break
+      case "workComplete":
+        commands.push(
+          {
+            id: "surface",
+            label: longBreakDue
+              ? `LONG SURFACE · ${settings.longBreakMinutes} MIN`
+              : `SURFACE · ${settings.breakMinutes} MIN`,
+            group: "SESSION",
+            keywords: ["break", "rest"],
+            shortcut: key("surface"),
+            run: startBreak,
+          },
+          {
+            id: "orbit",
+            label: "RETURN TO ORBIT",
+            group: "SESSION",
+            keywords: ["idle", "skip"],
+            shortcut: key("primary"),
+            run: returnToIdle,
+          },
+        )
+        break
+      case "break":
+        commands.push(
+          breakKind === "surface"
+            ? {
+                id: "resume",
+                label: "RESUME SESSION",
+                group: "SESSION",
+                keywords: ["continue", "warp"],
+                shortcut: key("primary"),
+                run: resumeWork,
+              }
+            : {
+                id: "end-break",
+                label: "END BREAK",
+                group: "SESSION",
+                keywords: ["skip", "idle"],
+                shortcut: key("primary"),
+                run: returnToIdle,
+              },
+        )
+        break
+      case "breakComplete":
+        commands.push({
+          id: "warp",
+          label: "RETURN TO WARP",
+          group: "SESSION",
+          keywords: ["idle", "continue"],
+          shortcut: key("primary"),
+          run: returnToIdle,
+        })
+        break
+    }
+
+    // Stats, history and settings live on the idle screen
+    if (state === "idle") {
+      commands.push(
+        { id: "stats", label: "OPEN STATS", group: "VIEWS", run: () => openView(openStats) },
+        {
+          id: "calendar",
+          label: "OPEN CALENDAR",
+          group: "VIEWS",
+          keywords: ["history"],
+          run: () => openView(openCalendar),
+        },
+        { id: "settings", label: "OPEN SETTINGS", group: "VIEWS", run: () => openView(() => setShowSettings(true)) },
+        {
+          id: "theme-editor",
+          label: "EDIT FIELDS",
+          group: "VIEWS",
+          keywords: ["theme", "custom", "colour", "color"],
+          run: () => openView(() => setShowThemeEditor(true)),
+        },
+      )
+    }
+    commands.push({
+      id: "keys",
+      label: "KEYBOARD SHORTCUTS",
+      group: "VIEWS",
+      keywords: ["keys", "help", "remap"],
+      shortcut: key("help"),
+      run: () => openView(() => setShowShortcuts(true)),
+    })
+    if (!cruiseMode && (state === "working" || state === "break" || state === "paused")) {
+      commands.push({
+        id: "progress",
+        label: showProgress ? "HIDE PROGRESS" : "SHOW PROGRESS",
+        group: "VIEWS",
+        keywords: ["prog", "bar"],
+        shortcut: key("toggleProgress"),
+        run: () => setShowProgress(!showProgress),
+      })
+    }
+
+    for (const themeKey of listThemeKeys(customThemes)) {
+      if (themeKey === currentTheme) continue
+      commands.push({
+        id: `theme-${themeKey}`,
+        label: `FIELD · ${findTheme(themeKey, customThemes)?.name}`,
+        group: "FIELDS",
+        keywords: ["theme", "colour", "color"],
+        run: () => changeTheme(themeKey),
+      })
+    }
+
+    commands.push(
+      {
+        id: "ambient",
+        label: ambientEnabled ? "AMBIENT SOUND OFF" : "AMBIENT SOUND ON",
+        group: "SOUND",
+        keywords: ["ambt", "audio", "toggle"],
+        shortcut: key("toggleAmbient"),
+        run: toggleAmbient,
+      },
+      {
+        id: "export-json",
+        label: "EXPORT JSON",
+        group: "DATA",
+        keywords: ["backup", "download"],
+        run: () => exportData("json"),
+      },
+      {
+        id: "export-csv",
+        label: "EXPORT CSV",
+        group: "DATA",
+        keywords: ["spreadsheet", "download"],
+        run: () => exportData("csv"),
+      },
+    )
+
+    return commands
+  }
+
+  // Re-attached on every render so the handler always sees the current screen
+  useEffect(() => {
+    window.addEventListener("keydown", handleShortcut)
+    return () => window.removeEventListener("keydown", handleShortcut)
+  })
 
   // Update timer display every second
   useEffect(() => {
@@ -873,6 +1533,42 @@ export default function WarPomodoro() {
     }
   }, [state])
 
+  // Show the phase and time left in the tab title and favicon, to follow the session from other tabs
+  useEffect(() => {
+    const updateTab = () => {
+      const now = Date.now()
+      const workProgress = Math.min(workElapsedAt(timer, now) / workDuration, 1)
+      const workLeft = formatTime(Math.max(workDuration - workElapsedAt(timer, now), 0))
+      const breakLeft = Math.max(remainingTime(timer, now) ?? 0, 0)
+
+      let status: { title: string; progress: number } | null = null
+      if (state === "working") {
+        status = cruiseMode
+          ? { title: `▲ ${formatTime(workElapsedAt(timer, now))} CRUISE`, progress: 1 }
+          : { title: `▲ ${workLeft} WARP`, progress: workProgress }
+      } else if (state === "paused") {
+        status = { title: `❙❙ ${workLeft} HOLD`, progress: workProgress }
+      } else if (state === "break") {
+        status = {
+          title: `◼ ${formatTime(breakLeft)} ${breakKind === "long" ? "LONG SURFACE" : "SURFACE"}`,
+          progress: 1 - breakLeft / timer.breakDuration,
+        }
+      } else if (state === "breakComplete") {
+        status = { title: "◼ SURFACE OVER", progress: 1 }
+      } else if (state === "workComplete") {
+        status = { title: "▲ EXIT COMPLETE", progress: 1 }
+      }
+
+      document.title = status ? status.title : CONFIG.APP_TITLE
+      setFavicon(status && drawProgressFavicon(status.progress, theme))
+    }
+
+    updateTab()
+    // Only running countdowns change between transitions
+    const interval = state === "working" || state === "break" ? setInterval(updateTab, 1000) : undefined
+    return () => clearInterval(interval)
+  }, [timer, state, breakKind, cruiseMode, workDuration, theme])
+
   return (
     <div className="relative w-screen h-screen overflow-hidden" style={{ backgroundColor: theme.background }}>
       <canvas ref={canvasRef} className="absolute inset-0" style={{ display: "block" }} />
@@ -975,6 +1671,17 @@ export default function WarPomodoro() {
               </div>
             </div>
           )}
+
+          {/* Audio cluster: AMBT, volume, track and mute during breaks */}
+          <AudioControls
+            theme={theme}
+            enabled={ambientEnabled}
+            onToggle={toggleAmbient}
+            settings={soundSettings}
+            themeKey={currentTheme}
+            tracks={tracks}
+            onChange={updateSoundSettings}
+          />
         </div>
       )}
 
@@ -989,7 +1696,7 @@ export default function WarPomodoro() {
               className="text-xs font-mono opacity-70 max-w-md leading-relaxed uppercase mb-6"
               style={{ color: theme.stars }}
             >
-              A 25-MINUTE WARP THROUGH TIME. NO COUNTDOWN. JUST MOTION.
+              A {settings.workMinutes}-MINUTE WARP THROUGH TIME. NO COUNTDOWN. JUST MOTION.
             </p>
 
             {/* Theme Selector */}
@@ -998,10 +1705,10 @@ export default function WarPomodoro() {
                 FIELDS
               </h3>
               <div className="flex gap-2 justify-center flex-wrap">
-                {Object.entries(THEMES).map(([key, themeData]) => (
+                {listThemeKeys(customThemes).map((key) => (
                   <button
                     key={key}
-                    onClick={() => changeTheme(key as ThemeKey)}
+                    onClick={() => changeTheme(key)}
                     className="pointer-events-auto px-3 py-1 font-mono text-xs uppercase tracking-wide transition-colors duration-200"
                     style={{
                       backgroundColor: currentTheme === key ? theme.stars : "transparent",
@@ -1009,20 +1716,59 @@ export default function WarPomodoro() {
                       border: `1px solid ${theme.stars}`,
                     }}
                   >
-                    {themeData.name}
+                    {findTheme(key, customThemes)?.name}
                   </button>
                 ))}
+                <button
+                  onClick={() => setShowThemeEditor(true)}
+                  className="pointer-events-auto px-3 py-1 font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200"
+                  style={{ color: theme.stars, border: `1px dashed ${theme.stars}` }}
+                  aria-label="Edit custom FIELDS"
+                >
+                  + EDIT
+                </button>
               </div>
             </div>
           </div>
         )}
 
         {state === "workComplete" && (
+          <div className="flex flex-col items-center mb-8">
+            <div
+              className="text-2xl font-mono uppercase"
+              style={{ color: theme.stars }}
+            >
+              EXIT COMPLETE.
+            </div>
+            <div className="font-mono text-xs uppercase opacity-70 mt-3" style={{ color: theme.stars }}>
+              {longBreakDue
+                ? "CYCLE COMPLETE. LONG SURFACE EARNED."
+                : `CYCLE ${cycleSessions}/${settings.longBreakInterval}`}
+            </div>
+            {activeTask &&
+              (tasks.find((task) => task.id === activeTask.id)?.done ? (
+                <div className="font-mono text-xs uppercase opacity-70 mt-3" style={{ color: theme.stars }}>
+                  {activeTask.title} — DONE.
+                </div>
+              ) : (
+                <button
+                  onClick={markActiveTaskDone}
+                  className="pointer-events-auto font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200 mt-3"
+                  style={{ color: theme.stars }}
+                >
+                  ☐ MARK {activeTask.title} DONE
+                </button>
+              ))}
+          </div>
+        )}
+
+        {/* Intention for the current tunnel - kept subtle */}
+        {(state === "working" || state === "paused") && activeTask && (
           <div
-            className="text-2xl font-mono mb-8 uppercase"
+            className="absolute top-6 left-1/2 -translate-x-1/2 font-mono text-xs uppercase tracking-wide opacity-40 max-w-md truncate"
             style={{ color: theme.stars }}
           >
-            EXIT COMPLETE.
+            {activeTask.title}
           </div>
         )}
 
@@ -1051,6 +1797,17 @@ export default function WarPomodoro() {
 
         {showButton && (
           <div className="flex flex-col items-center gap-4">
+            {/* Intention Picker */}
+            {state === "idle" && (
+              <IntentionPicker
+                theme={theme}
+                value={intention}
+                tasks={tasks}
+                onChange={setIntention}
+                onRemoveTask={(id) => updateTasks(removeTask(tasks, id))}
+              />
+            )}
+
             <button
               onClick={handleButtonClick}
               onMouseMove={(e) => {
@@ -1080,62 +1837,121 @@ export default function WarPomodoro() {
                     color: theme.background,
                   }}
                 >
-                  BEGIN A 25-MINUTE SESSION
+                  BEGIN A {settings.workMinutes}-MINUTE SESSION
                 </div>
               )}
             </button>
 
-            {/* Cruise Mode Checkbox */}
+            {/* Break after a completed tunnel */}
+            {state === "workComplete" && (
+              <button
+                onClick={startBreak}
+                className="pointer-events-auto border px-4 py-2 font-mono text-xs uppercase tracking-wide transition-colors duration-200"
+                style={{
+                  borderRadius: 0,
+                  backgroundColor: "transparent",
+                  color: theme.stars,
+                  borderColor: theme.stars,
+                }}
+              >
+                {longBreakDue ? `LONG SURFACE · ${settings.longBreakMinutes} MIN` : `SURFACE · ${settings.breakMinutes} MIN`}
+              </button>
+            )}
+
+            {/* Cruise Mode Checkbox and Project Picker */}
             {state === "idle" && (
               <div className="flex flex-col items-center gap-4">
-                <div className="flex items-center gap-2 pointer-events-auto group relative">
-                  <input
-                    type="checkbox"
-                    id="cruiseMode"
-                    checked={cruiseMode}
-                    onChange={(e) => setCruiseMode(e.target.checked)}
-                    className="w-4 h-4 custom-checkbox"
-                    style={{ 
-                      appearance: 'none',
-                      WebkitAppearance: 'none',
-                      MozAppearance: 'none',
-                      position: 'relative',
-                      cursor: 'pointer',
-                      backgroundColor: theme.background,
-                      border: `1px solid ${theme.stars}`,
-                      borderRadius: '2px'
-                    }}
+                <div className="flex items-center gap-6">
+                  <div className="flex items-center gap-2 pointer-events-auto group relative">
+                    <input
+                      type="checkbox"
+                      id="cruiseMode"
+                      checked={cruiseMode}
+                      onChange={(e) => setCruiseMode(e.target.checked)}
+                      className="w-4 h-4 custom-checkbox"
+                      style={{ 
+                        appearance: 'none',
+                        WebkitAppearance: 'none',
+                        MozAppearance: 'none',
+                        position: 'relative',
+                        cursor: 'pointer',
+                        backgroundColor: theme.background,
+                        border: `1px solid ${theme.stars}`,
+                        borderRadius: '2px'
+                      }}
+                    />
+                    <style>{`
+                      .custom-checkbox:checked {
+                        background-color: ${theme.stars} !important;
+                      }
+                    `}</style>
+                    <label
+                      htmlFor="cruiseMode"
+                      className="font-mono text-xs uppercase tracking-wide"
+                      style={{ color: theme.stars }}
+                      onMouseMove={(e) => {
+                        const rect = e.currentTarget.getBoundingClientRect()
+                        setMousePos({ x: e.clientX - rect.left, y: e.clientY - rect.top })
+                      }}
+                    >
+                      CRUISE MODE
+                    </label>
+                    {/* Hover tooltip */}
+                    <div
+                      className="absolute font-mono opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 text-xs px-2 py-1"
+                      style={{
+                        left: `${mousePos.x}px`,
+                        top: `${mousePos.y - 30}px`,
+                        transform: "translate(-50%, 0)",
+                        fontSize: "9px",
+                        backgroundColor: theme.stars,
+                        color: theme.background,
+                      }}
+                    >
+                      DISENGAGE THE TIMER AND CRUISE
+                    </div>
+                  </div>
+
+                  <ProjectPicker
+                    theme={theme}
+                    projects={projects}
+                    selectedId={selectedProjectId}
+                    onSelect={selectProject}
+                    onCreate={addProject}
+                    onRemove={deleteProject}
                   />
-                  <style>{`
-                    .custom-checkbox:checked {
-                      background-color: ${theme.stars} !important;
-                    }
-                  `}</style>
-                  <label
-                    htmlFor="cruiseMode"
-                    className="font-mono text-xs uppercase tracking-wide"
+                </div>
+
+                {/* Settings and History Links */}
+                <div className="flex gap-4">
+                  <button
+                    onClick={() => setShowSettings(true)}
+                    className="pointer-events-auto font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200"
                     style={{ color: theme.stars }}
-                    onMouseMove={(e) => {
-                      const rect = e.currentTarget.getBoundingClientRect()
-                      setMousePos({ x: e.clientX - rect.left, y: e.clientY - rect.top })
-                    }}
                   >
-                    CRUISE MODE
-                  </label>
-                  {/* Hover tooltip */}
-                  <div
-                    className="absolute font-mono opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 text-xs px-2 py-1"
-                    style={{
-                      left: `${mousePos.x}px`,
-                      top: `${mousePos.y - 30}px`,
-                      transform: "translate(-50%, 0)",
-                      fontSize: "9px",
-                      backgroundColor: theme.stars,
-                      color: theme.background,
-                    }}
+                    SETTINGS
+                  </button>
+                  <button
+                    onClick={openStats}
+                    className="pointer-events-auto font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200"
+                    style={{ color: theme.stars }}
                   >
-                    DISENGAGE THE TIMER AND CRUISE
-                  </div>
+                    STATS
+                  </button>
+                  <button
+                    onClick={openCalendar}
+                    className="pointer-events-auto font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200"
+                    style={{ color: theme.stars }}
+                  >
+                    CALENDAR
+                  </button>
+                  <button
+                    onClick={() => setShowShortcuts(true)}
+                    className="pointer-events-auto font-mono text-xs uppercase tracking-wide opacity-70 hover:opacity-100 transition-opacity duration-200"
+                    style={{ color: theme.stars }}
+                  >
+                    KEYS
+                  </button>
                 </div>
 
                 {/* About Link */}
@@ -1167,7 +1983,7 @@ export default function WarPomodoro() {
 
                     I've always loved sci-fi — the quiet before a hyperspace jump, the hum of old tech. I wanted a timer that felt like that. Not numbers. Just motion.
 
-                    It runs for 25 minutes. The stars drift, then speed up. When it ends, everything snaps back like dropping out of warp.
+                    It runs for {settings.workMinutes} {settings.workMinutes === 1 ? "minute" : "minutes"}. The stars drift, then speed up. When it ends, everything snaps back like dropping out of warp.
 
                     There's sound, themes, and even an optional progress bar if you need it. But mostly, it's just a focus tool that doesn't feel like a timer.
                   </div>
@@ -1213,6 +2029,36 @@ export default function WarPomodoro() {
                 TAKE A SHORT BREAK. YOUR SESSION STAYS ACTIVE
               </div>
             </button>
+            <button
+              onClick={pauseWork}
+              onMouseMove={(e) => {
+                const rect = e.currentTarget.getBoundingClientRect()
+                setMousePos({ x: e.clientX - rect.left, y: e.clientY - rect.top })
+              }}
+              className="border px-4 py-2 font-mono text-xs uppercase tracking-wide transition-colors duration-200 relative group"
+              style={{
+                borderRadius: 0,
+                backgroundColor: theme.stars,
+                color: theme.background,
+                borderColor: theme.stars,
+              }}
+            >
+              HOLD
+              {/* Hover tooltip */}
+              <div
+                className="absolute font-mono opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 text-xs px-2 py-1"
+                style={{
+                  left: `${mousePos.x}px`,
+                  top: `${mousePos.y - 30}px`,
+                  transform: "translate(-50%, 0)",
+                  fontSize: "9px",
+                  backgroundColor: theme.stars,
+                  color: theme.background,
+                }}
+              >
+                FREEZE THE COUNTDOWN. THE TUNNEL HOLDS ITS SPEED
+              </div>
+            </button>
             <button
               onClick={endSession}
               onMouseMove={(e) => {
@@ -1246,32 +2092,177 @@ export default function WarPomodoro() {
           </div>
         )}
 
+        {/* Hold state - countdown frozen */}
+        {state === "paused" && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="font-mono text-sm uppercase mb-4 animate-pulse" style={{ color: theme.stars, opacity: 0.8 }}>
+              TUNNEL HOLDING
+            </div>
+            <div className="flex gap-4 pointer-events-auto">
+              <button
+                onClick={resumeFromPause}
+                className="border px-4 py-2 font-mono text-xs uppercase tracking-wide transition-colors duration-200"
+                style={{
+                  borderRadius: 0,
+                  backgroundColor: theme.stars,
+                  color: theme.background,
+                  borderColor: theme.stars,
+                }}
+              >
+                RELEASE
+              </button>
+              <button
+                onClick={endSession}
+                className="border px-4 py-2 font-mono text-xs uppercase tracking-wide transition-colors duration-200"
+                style={{
+                  borderRadius: 0,
+                  backgroundColor: theme.stars,
+                  color: theme.background,
+                  borderColor: theme.stars,
+                }}
+              >
+                DISENGAGE
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Additional button for break state */}
         {state === "break" && (
-          <button
-            onClick={resumeWork}
-            className="pointer-events-auto border px-6 py-3 font-mono text-sm uppercase tracking-wide transition-colors duration-200 mt-4"
-            style={{
-              borderRadius: 0,
-              backgroundColor: theme.stars,
-              color: theme.background,
-              borderColor: theme.stars,
-            }}
-          >
-            RESUME SESSION
-          </button>
+          <div className="flex flex-col items-center gap-2">
+            <div className="font-mono text-xs uppercase opacity-70" style={{ color: theme.stars }}>
+              {breakKind === "long" ? "LONG SURFACE" : "SURFACE"}
+            </div>
+            <button
+              onClick={breakKind === "surface" ? resumeWork : returnToIdle}
+              className="pointer-events-auto border px-6 py-3 font-mono text-sm uppercase tracking-wide transition-colors duration-200 mt-4"
+              style={{
+                borderRadius: 0,
+                backgroundColor: theme.stars,
+                color: theme.background,
+                borderColor: theme.stars,
+              }}
+            >
+              {breakKind === "surface" ? "RESUME SESSION" : "END BREAK"}
+            </button>
+          </div>
         )}
 
-        {/* Session counter - only show completed sessions */}
-        {state === "idle" && completedSessions > 0 && (
-          <div className="absolute bottom-8 font-mono text-xs opacity-50 uppercase" style={{ color: theme.stars }}>
-            {completedSessions} TUNNEL{completedSessions !== 1 ? "S" : ""} EXITED
+        {/* Session counter and cycle position */}
+        {state === "idle" && (
+          <div className="absolute bottom-8 flex flex-col items-center gap-2 font-mono text-xs uppercase" style={{ color: theme.stars }}>
+            <div className="flex items-center gap-2 opacity-50">
+              <span>CYCLE</span>
+              <div className="flex gap-1">
+                {Array.from({ length: settings.longBreakInterval }, (_, i) => (
+                  <div
+                    key={i}
+                    className="w-2 h-2 border"
+                    style={{
+                      borderColor: theme.stars,
+                      backgroundColor: i < cycleSessions ? theme.stars : "transparent",
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 opacity-50">
+              {/* Only show completed sessions */}
+              {completedSessions > 0 && (
+                <span>
+                  {completedSessions} TUNNEL{completedSessions !== 1 ? "S" : ""} EXITED
+                </span>
+              )}
+              <span style={{ opacity: goalProgress.today >= settings.dailyGoal ? 1 : undefined }}>
+                TODAY {goalProgress.today}/{settings.dailyGoal}
+              </span>
+              {goalProgress.streak > 0 && <span>{goalProgress.streak}-DAY STREAK</span>}
+            </div>
           </div>
         )}
       </div>
 
+      {/* Settings panel - idle screen only */}
+      {state === "idle" && showSettings && (
+        <SettingsPanel
+          theme={theme}
+          settings={settings}
+          onSave={updateSettings}
+          onClose={() => setShowSettings(false)}
+        >
+          <AlertsSection
+            theme={theme}
+            settings={alertSettings}
+            onChange={updateAlertSettings}
+            onTestChime={testChimes}
+          />
+          <SoundSection
+            theme={theme}
+            themeKey={currentTheme}
+            themeName={theme.name}
+            tracks={tracks}
+            settings={soundSettings}
+            onChange={updateSoundSettings}
+            onAddFile={addSoundFile}
+            onRemoveTrack={removeSoundTrack}
+          />
+          <ThemeScheduleSection
+            theme={theme}
+            schedule={themeSchedule}
+            customThemes={customThemes}
+            onChange={updateThemeSchedule}
+          />
+          <DataTransferSection theme={theme} onExport={exportData} onImport={importData} />
+        </SettingsPanel>
+      )}
+
+      {/* Stats view - idle screen only */}
+      {state === "idle" && showStats && (
+        <StatsView theme={theme} records={historyRecords} projects={projects} onClose={() => setShowStats(false)} />
+      )}
+
+      {/* Calendar view - idle screen only */}
+      {state === "idle" && showCalendar && (
+        <HistoryCalendar
+          theme={theme}
+          records={historyRecords}
+          rolloverHour={settings.dayRolloverHour}
+          onClose={() => setShowCalendar(false)}
+        />
+      )}
+
+      {/* Keyboard shortcuts - available on every screen */}
+      {showShortcuts && (
+        <ShortcutsHelp
+          theme={theme}
+          shortcuts={shortcuts}
+          onChange={updateShortcuts}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
+
+      {state === "idle" && showThemeEditor && (
+        <ThemeEditor
+          theme={theme}
+          customThemes={customThemes}
+          currentTheme={currentTheme}
+          onChange={updateCustomThemes}
+          onSelect={changeTheme}
+          onPreview={setThemePreview}
+          onClose={() => setShowThemeEditor(false)}
+        />
+      )}
+
+      <CommandPalette
+        theme={theme}
+        open={showPalette}
+        onOpenChange={setShowPalette}
+        commands={getPaletteCommands()}
+        onLaunchFor={state === "idle" ? launchFor : undefined}
+      />
+
       {/* Progress bar with timer - Only show when not in cruise mode */}
-      {!cruiseMode && showProgress && (state === "working" || state === "break") && (
+      {!cruiseMode && showProgress && (state === "working" || state === "break" || state === "paused") && (
         <div className="absolute bottom-0 left-0 right-0">
           {/* Timer display */}
           <div className="absolute -top-8 right-2 font-mono text-sm opacity-80" style={{ color: theme.stars }}>
@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { FieldSlider } from "@/components/field-slider"
+import { notificationsSupported, requestNotificationPermission, type AlertSettings } from "@/lib/alerts"
+
+interface AlertsSectionProps {
+  theme: { background: string; stars: string }
+  settings: AlertSettings
+  onChange: (settings: AlertSettings) => void
+  onTestChime: () => void
+}
+
+export function AlertsSection({ theme, settings, onChange, onTestChime }: AlertsSectionProps) {
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">("default")
+
+  useEffect(() => {
+    setPermission(notificationsSupported() ? Notification.permission : "unsupported")
+  }, [])
+
+  // Ask for permission the first time notifications are switched on
+  const toggleNotifications = async () => {
+    if (settings.notifications) {
+      onChange({ ...settings, notifications: false })
+      return
+    }
+    const result = await requestNotificationPermission()
+    setPermission(result)
+    if (result === "granted") {
+      onChange({ ...settings, notifications: true })
+    }
+  }
+
+  const toggleStyle = (on: boolean) => ({
+    backgroundColor: on ? theme.stars : "transparent",
+    color: on ? theme.background : theme.stars,
+    border: `1px solid ${theme.stars}`,
+    borderRadius: 0,
+  })
+
+  return (
+    <div className="border-t pt-4 mb-5" style={{ borderColor: `${theme.stars}55` }}>
+      <h4 className="mb-3 opacity-70 tracking-wide">ALERTS</h4>
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-4">
+          <span>NOTIFICATIONS</span>
+          {permission === "unsupported" ? (
+            <span className="opacity-50">UNSUPPORTED</span>
+          ) : permission === "denied" ? (
+            <span className="opacity-50">BLOCKED IN BROWSER</span>
+          ) : (
+            <button
+              onClick={toggleNotifications}
+              className="px-2 py-0.5 tracking-wide"
+              style={toggleStyle(settings.notifications)}
+            >
+              {settings.notifications ? "ON" : "OFF"}
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <span>CHIMES</span>
+          <button
+            onClick={() => onChange({ ...settings, chimes: !settings.chimes })}
+            className="px-2 py-0.5 tracking-wide"
+            style={toggleStyle(settings.chimes)}
+          >
+            {settings.chimes ? "ON" : "OFF"}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <span>CHIME VOLUME</span>
+          <FieldSlider
+            theme={theme}
+            value={settings.chimeVolume}
+            onChange={(chimeVolume) => onChange({ ...settings, chimeVolume })}
+            label="Chime volume"
+            className="w-24"
+          />
+        </div>
+
+        <button onClick={onTestChime} className="self-end opacity-70 hover:opacity-100 tracking-wide">
+          TEST CHIMES
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+
+import { FieldSlider } from "@/components/field-slider"
+import { trackForTheme, type AmbientTrack, type SoundSettings } from "@/lib/sound-library"
+
+interface AudioControlsProps {
+  theme: { background: string; stars: string }
+  enabled: boolean
+  onToggle: () => void
+  settings: SoundSettings
+  themeKey: string
+  tracks: AmbientTrack[]
+  onChange: (settings: SoundSettings) => void
+}
+
+// The audio cluster of the top-right analog panel: AMBT, and while it's on the
+// master volume, the FIELD's track and muting the break layer
+export function AudioControls({ theme, enabled, onToggle, settings, themeKey, tracks, onChange }: AudioControlsProps) {
+  const [mousePos, setMousePos] = useState({ x: 0, y: 0 })
+
+  const selected = trackForTheme(settings, themeKey, tracks)
+
+  // Same box, label and hover tooltip as CTRL and PROG
+  const control = (label: string, tooltip: string, input: ReactNode) => (
+    <div
+      className="flex items-center gap-2 border px-2 py-1 group relative"
+      style={{
+        backgroundColor: theme.stars,
+        borderColor: theme.stars,
+      }}
+      onMouseMove={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect()
+        setMousePos({ x: e.clientX - rect.left, y: e.clientY - rect.top })
+      }}
+    >
+      <span className="font-mono text-xs uppercase opacity-70" style={{ color: theme.background }}>
+        {label}
+      </span>
+      {input}
+      {/* Hover tooltip */}
+      <div
+        className="absolute font-mono opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-50 text-xs px-2 py-1"
+        style={{
+          left: `${mousePos.x}px`,
+          top: `${mousePos.y - 30}px`,
+          transform: "translate(-50%, 0)",
+          fontSize: "9px",
+          backgroundColor: theme.stars,
+          color: theme.background,
+        }}
+      >
+        {tooltip}
+      </div>
+    </div>
+  )
+
+  const toggle = (on: boolean, onClick: () => void, label: string) => (
+    <button
+      onClick={onClick}
+      className="w-5 h-2 border relative"
+      style={{
+        backgroundColor: theme.background,
+        borderColor: theme.background,
+      }}
+      aria-label={label}
+      aria-pressed={on}
+    >
+      <div
+        className={`absolute top-0 w-1.5 h-2 transition-all duration-200`}
+        style={{
+          backgroundColor: theme.stars,
+          left: on ? "10px" : "2px",
+        }}
+      />
+    </button>
+  )
+
+  return (
+    <>
+      {control("AMBT", "AMBIENT SOUND ON/OFF", toggle(enabled, onToggle, "Ambient sound"))}
+
+      {enabled && (
+        <>
+          {control(
+            "VOL",
+            "AMBIENT VOLUME",
+            <FieldSlider
+              theme={{ background: theme.stars, stars: theme.background }}
+              value={settings.master}
+              onChange={(master) => onChange({ ...settings, master })}
+              label="Ambient volume"
+              className="w-16"
+            />,
+          )}
+
+          {control(
+            "TRK",
+            "TRACK FOR THIS FIELD",
+            <select
+              value={selected.id}
+              onChange={(e) =>
+                onChange({ ...settings, trackByTheme: { ...settings.trackByTheme, [themeKey]: e.target.value } })
+              }
+              className="font-mono uppercase border max-w-24 truncate"
+              style={{
+                fontSize: "9px",
+                backgroundColor: theme.background,
+                borderColor: theme.background,
+                color: theme.stars,
+                borderRadius: 0,
+              }}
+              aria-label="Ambient track"
+            >
+              {tracks.map((track) => (
+                <option key={track.id} value={track.id}>
+                  {track.name}
+                </option>
+              ))}
+            </select>,
+          )}
+
+          {control(
+            "MUTE BRK",
+            "SILENCE AMBIENT DURING BREAKS",
+            toggle(
+              settings.muteBreaks,
+              () => onChange({ ...settings, muteBreaks: !settings.muteBreaks }),
+              "Mute during breaks",
+            ),
+          )}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useEffect, useState, type CSSProperties } from "react"
+
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import { SETTINGS_LIMITS } from "@/lib/settings"
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  group: string
+  keywords?: string[]
+  shortcut?: string
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  theme: { background: string; stars: string }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  commands: PaletteCommand[] // Only the actions valid on the current screen
+  onLaunchFor?: (minutes: number) => void // One-off durations, offered while idle
+}
+
+// "launch 40", "warp 40m", "start 40 min"
+const LAUNCH_PATTERN = /^\s*(?:launch|warp|start)\s+(\d{1,3})\s*(?:m|min|mins|minutes)?\s*$/i
+
+// The palette reads the theme through these CSS variables
+const PALETTE_CLASSES =
+  "bg-transparent text-[--palette-fg] [&_[cmdk-input-wrapper]]:border-[--palette-fg] [&_[cmdk-input]]:uppercase [&_[cmdk-input]]:placeholder:text-[--palette-fg] [&_[cmdk-input]]:placeholder:opacity-50"
+const GROUP_CLASSES = "text-[--palette-fg] [&_[cmdk-group-heading]]:text-[--palette-fg] [&_[cmdk-group-heading]]:opacity-60"
+const ITEM_CLASSES =
+  "rounded-none text-xs data-[selected=true]:bg-[--palette-fg] data-[selected=true]:text-[--palette-bg]"
+
+export function CommandPalette({ theme, open, onOpenChange, commands, onLaunchFor }: CommandPaletteProps) {
+  const [search, setSearch] = useState("")
+
+  // Start empty each time it opens
+  useEffect(() => {
+    if (!open) setSearch("")
+  }, [open])
+
+  const launchMatch = onLaunchFor ? LAUNCH_PATTERN.exec(search) : null
+  const launchMinutes = launchMatch ? Number.parseInt(launchMatch[1], 10) : null
+  const launchValid =
+    launchMinutes !== null &&
+    launchMinutes >= SETTINGS_LIMITS.MIN_MINUTES &&
+    launchMinutes <= SETTINGS_LIMITS.MAX_MINUTES
+
+  // Groups in the order their first command appears
+  const groups = Array.from(new Set(commands.map((command) => command.group)))
+
+  const run = (action: () => void) => {
+    onOpenChange(false)
+    action()
+  }
+
+  const paletteVars = { "--palette-fg": theme.stars, "--palette-bg": theme.background } as CSSProperties
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="overflow-hidden p-0 rounded-none sm:rounded-none font-mono uppercase [&>button]:hidden"
+        style={{ ...paletteVars, backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars }}
+      >
+        <DialogTitle className="sr-only">COMMANDS</DialogTitle>
+        <Command className={PALETTE_CLASSES}>
+          <CommandInput value={search} onValueChange={setSearch} placeholder="TYPE A COMMAND OR “LAUNCH 40”" />
+          <CommandList>
+            <CommandEmpty className="py-6 text-center text-xs opacity-70">NO MATCHING COMMAND.</CommandEmpty>
+
+            {launchMatch && (
+              <CommandGroup heading="LAUNCH" className={GROUP_CLASSES}>
+                <CommandItem
+                  value={search}
+                  disabled={!launchValid}
+                  onSelect={() => launchMinutes !== null && run(() => onLaunchFor?.(launchMinutes))}
+                  className={ITEM_CLASSES}
+                >
+                  {launchValid
+                    ? `LAUNCH A ${launchMinutes}-MINUTE WARP`
+                    : `WARP LENGTH MUST BE ${SETTINGS_LIMITS.MIN_MINUTES}–${SETTINGS_LIMITS.MAX_MINUTES} MINUTES`}
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {groups.map((group) => (
+              <CommandGroup key={group} heading={group} className={GROUP_CLASSES}>
+                {commands
+                  .filter((command) => command.group === group)
+                  .map((command) => (
+                    <CommandItem
+                      key={command.id}
+                      value={command.id}
+                      keywords={[command.label, ...(command.keywords ?? [])]}
+                      onSelect={() => run(command.run)}
+                      className={ITEM_CLASSES}
+                    >
+                      {command.label}
+                      {command.shortcut && (
+                        <CommandShortcut className="text-[inherit] opacity-60">{command.shortcut}</CommandShortcut>
+                      )}
+                    </CommandItem>
+                  ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useRef, useState } from "react"
+
+import type { ExportFormat, ImportResult } from "@/lib/data-transfer"
+
+interface DataTransferSectionProps {
+  theme: { background: string; stars: string }
+  onExport: (format: ExportFormat) => void
+  onImport: (file: File) => Promise<ImportResult>
+}
+
+// Errors listed in the report before the rest are summarised
+const MAX_LISTED_ERRORS = 5
+
+export function DataTransferSection({ theme, onExport, onImport }: DataTransferSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState(false)
+  const [report, setReport] = useState<ImportResult | null>(null)
+  const [failure, setFailure] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBusy(true)
+    setReport(null)
+    setFailure(null)
+    try {
+      setReport(await onImport(file))
+    } catch (error) {
+      setFailure(error instanceof Error ? error.message : String(error))
+    } finally {
+      setBusy(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const buttonStyle = { borderColor: theme.stars, color: theme.stars, borderRadius: 0 }
+
+  return (
+    <div className="border-t pt-4 mb-5" style={{ borderColor: `${theme.stars}55` }}>
+      <h4 className="mb-3 opacity-70 tracking-wide">DATA</h4>
+      <div className="flex gap-2 flex-wrap">
+        <button onClick={() => onExport("json")} className="border px-3 py-1 tracking-wide" style={buttonStyle}>
+          EXPORT JSON
+        </button>
+        <button onClick={() => onExport("csv")} className="border px-3 py-1 tracking-wide" style={buttonStyle}>
+          EXPORT CSV
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="border px-3 py-1 tracking-wide disabled:opacity-50"
+          style={buttonStyle}
+        >
+          {busy ? "IMPORTING…" : "IMPORT"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {/* Import report */}
+      {report && (
+        <div className="mt-3 normal-case" style={{ fontSize: "10px" }}>
+          <p className="uppercase">
+            {report.sessions.length} ADDED · {report.duplicates} DUPLICATE{report.duplicates !== 1 ? "S" : ""} SKIPPED
+            {report.errors.length > 0 && ` · ${report.errors.length} REJECTED`}
+          </p>
+          {report.errors.length > 0 && (
+            <ul className="mt-1 opacity-70 max-w-[320px]">
+              {report.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+              {report.errors.length > MAX_LISTED_ERRORS && <li>…and {report.errors.length - MAX_LISTED_ERRORS} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+      {failure && (
+        <p className="mt-3 normal-case opacity-70" style={{ fontSize: "10px" }}>
+          Import failed: {failure}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import type { CSSProperties } from "react"
+
+import { Slider } from "@/components/ui/slider"
+import { cn } from "@/lib/utils"
+
+interface FieldSliderProps {
+  theme: { background: string; stars: string }
+  value: number // 0-1
+  onChange: (value: number) => void
+  label: string
+  className?: string
+}
+
+// The slider reads the theme through these CSS variables: a flat track, a square thumb
+const SLIDER_CLASSES =
+  "[&>span:first-child]:h-1 [&>span:first-child]:rounded-none [&>span:first-child]:bg-[--slider-track] [&>span:first-child>span]:bg-[--slider-fg] [&_[role=slider]]:h-3 [&_[role=slider]]:w-3 [&_[role=slider]]:rounded-none [&_[role=slider]]:border [&_[role=slider]]:border-[--slider-fg] [&_[role=slider]]:bg-[--slider-bg]"
+
+// A 0-1 slider in the FIELD's colours
+export function FieldSlider({ theme, value, onChange, label, className }: FieldSliderProps) {
+  const sliderVars = {
+    "--slider-fg": theme.stars,
+    "--slider-bg": theme.background,
+    "--slider-track": `${theme.stars}33`,
+  } as CSSProperties
+
+  return (
+    <Slider
+      value={[Math.round(value * 100)]}
+      min={0}
+      max={100}
+      step={1}
+      onValueChange={([percent]) => onChange(percent / 100)}
+      className={cn(SLIDER_CLASSES, className)}
+      style={sliderVars}
+      aria-label={label}
+    />
+  )
+}
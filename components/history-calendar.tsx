@@ -0,0 +1,153 @@
+"use client"
+
+import { useMemo, useState, type CSSProperties } from "react"
+import { format, parseISO } from "date-fns"
+
+import { Calendar } from "@/components/ui/calendar"
+import type { SessionOutcome, SessionRecord } from "@/lib/session-history"
+import { dayKey, groupRecordsByDay } from "@/lib/session-stats"
+
+interface HistoryCalendarProps {
+  theme: { background: string; stars: string }
+  records: SessionRecord[]
+  rolloverHour: number
+  onClose: () => void
+}
+
+type HeatMetric = "tunnels" | "minutes"
+
+const METRICS: { key: HeatMetric; label: string }[] = [
+  { key: "tunnels", label: "TUNNELS" },
+  { key: "minutes", label: "MINUTES" },
+]
+
+// Background alpha for each heat level, as a hex suffix on the star colour
+const HEAT_ALPHAS = ["33", "66", "99", "dd"]
+
+const OUTCOME_LABELS: Record<SessionOutcome, string> = {
+  completed: "EXITED",
+  disengaged: "DISENGAGED",
+  cruise: "CRUISE",
+}
+
+// react-day-picker's default classes are swapped for theme-driven CSS variables
+const CALENDAR_CLASSES = {
+  caption_label: "text-xs font-mono uppercase",
+  nav_button: "h-7 w-7 inline-flex items-center justify-center border border-[--cal-fg] opacity-50 hover:opacity-100",
+  head_cell: "w-9 font-normal text-[0.7rem] opacity-70",
+  cell: "h-9 w-9 text-center text-xs p-0 relative",
+  day: "h-9 w-9 p-0 font-mono text-xs hover:outline hover:outline-1 hover:outline-[--cal-fg]",
+  day_selected: "outline outline-1 outline-[--cal-fg]",
+  day_today: "underline underline-offset-4",
+  day_outside: "opacity-30",
+}
+
+export function HistoryCalendar({ theme, records, rolloverHour, onClose }: HistoryCalendarProps) {
+  const [metric, setMetric] = useState<HeatMetric>("tunnels")
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date())
+
+  const recordsByDay = useMemo(() => groupRecordsByDay(records, rolloverHour), [records, rolloverHour])
+
+  // Bucket every logged day into one of the heat levels for the chosen metric
+  const heatModifiers = useMemo(() => {
+    const values = Array.from(recordsByDay.entries()).map(([key, dayRecords]) => ({
+      date: parseISO(key),
+      value:
+        metric === "tunnels"
+          ? dayRecords.filter((record) => record.outcome === "completed").length
+          : dayRecords.reduce((total, record) => total + record.focusedTime, 0) / 60000,
+    }))
+    const max = Math.max(0, ...values.map(({ value }) => value))
+
+    const levels: Record<string, Date[]> = Object.fromEntries(HEAT_ALPHAS.map((_, level) => [`heat${level}`, []]))
+    values.forEach(({ date, value }) => {
+      if (value <= 0) return
+      const level = Math.min(Math.ceil((value / max) * HEAT_ALPHAS.length) - 1, HEAT_ALPHAS.length - 1)
+      levels[`heat${level}`].push(date)
+    })
+    return levels
+  }, [recordsByDay, metric])
+
+  const heatStyles = Object.fromEntries(
+    HEAT_ALPHAS.map((alpha, level) => [
+      `heat${level}`,
+      {
+        backgroundColor: `${theme.stars}${alpha}`,
+        color: level >= 2 ? theme.background : theme.stars,
+      },
+    ]),
+  )
+
+  // The picker hands back a plain calendar date, so look it up without the rollover shift
+  const selectedRecords = selectedDay ? recordsByDay.get(dayKey(selectedDay)) ?? [] : []
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center pointer-events-auto z-40 p-4"
+      style={{ backgroundColor: `${theme.background}cc` }}
+      onClick={onClose}
+    >
+      <div
+        className="border px-6 py-5 font-mono text-xs uppercase max-h-full overflow-y-auto"
+        style={{ "--cal-fg": theme.stars, backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars } as CSSProperties}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-6 mb-2">
+          <h3 className="opacity-70 tracking-wide">CALENDAR</h3>
+          <div className="flex gap-2">
+            {METRICS.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setMetric(key)}
+                className="px-2 py-0.5 tracking-wide transition-colors duration-200"
+                style={{
+                  backgroundColor: metric === key ? theme.stars : "transparent",
+                  color: metric === key ? theme.background : theme.stars,
+                  border: `1px solid ${theme.stars}`,
+                }}
+              >
+                {label}
+              </button>
+            ))}
+            <button onClick={onClose} className="ml-2 opacity-70 hover:opacity-100 tracking-wide transition-opacity duration-200">
+              CLOSE
+            </button>
+          </div>
+        </div>
+
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          weekStartsOn={1}
+          classNames={CALENDAR_CLASSES}
+          modifiers={heatModifiers}
+          modifiersStyles={heatStyles}
+        />
+
+        {/* Tunnels on the selected day */}
+        {selectedDay && (
+          <div className="border-t pt-3 mt-1" style={{ borderColor: `${theme.stars}55` }}>
+            <h4 className="opacity-70 mb-2">{format(selectedDay, "EEE dd MMM yyyy")}</h4>
+            {selectedRecords.length === 0 ? (
+              <p className="opacity-50">NO TUNNELS.</p>
+            ) : (
+              <ul className="flex flex-col gap-1">
+                {selectedRecords.map((record) => (
+                  <li key={record.id} className="flex justify-between gap-6">
+                    <span>{format(record.startedAt, "HH:mm")}</span>
+                    <span className="flex-1 truncate opacity-70">{record.intention ?? ""}</span>
+                    <span className="opacity-70">{Math.round(record.focusedTime / 60000)}M</span>
+                    <span className={record.outcome === "completed" ? "" : "opacity-50"}>
+                      {OUTCOME_LABELS[record.outcome]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { MAX_TASK_LENGTH, type Task } from "@/lib/tasks"
+
+interface IntentionPickerProps {
+  theme: { background: string; stars: string }
+  value: string
+  tasks: Task[]
+  onChange: (value: string) => void
+  onRemoveTask: (id: string) => void
+}
+
+// Open tasks shown as quick picks under the input
+const MAX_PICKS = 6
+
+export function IntentionPicker({ theme, value, tasks, onChange, onRemoveTask }: IntentionPickerProps) {
+  const openTasks = tasks.filter((task) => !task.done).slice(-MAX_PICKS)
+
+  return (
+    <div className="flex flex-col items-center gap-2 pointer-events-auto">
+      <input
+        type="text"
+        value={value}
+        maxLength={MAX_TASK_LENGTH}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="INTENTION (OPTIONAL)"
+        className="w-64 border-b px-1 py-1 bg-transparent outline-none font-mono text-xs uppercase tracking-wide text-center placeholder:opacity-50"
+        style={{ borderColor: theme.stars, color: theme.stars }}
+      />
+      {openTasks.length > 0 && (
+        <div className="flex gap-2 justify-center flex-wrap max-w-md">
+          {openTasks.map((task) => {
+            const selected = task.title.toLowerCase() === value.trim().toLowerCase()
+            return (
+              <div
+                key={task.id}
+                className="flex items-center font-mono uppercase tracking-wide"
+                style={{
+                  fontSize: "10px",
+                  border: `1px solid ${theme.stars}`,
+                  backgroundColor: selected ? theme.stars : "transparent",
+                  color: selected ? theme.background : theme.stars,
+                }}
+              >
+                <button onClick={() => onChange(selected ? "" : task.title)} className="px-2 py-0.5">
+                  {task.title}
+                </button>
+                <button
+                  onClick={() => onRemoveTask(task.id)}
+                  className="px-1 py-0.5 opacity-50 hover:opacity-100"
+                  aria-label={`Remove ${task.title}`}
+                >
+                  ×
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+
+import { MAX_PROJECT_NAME_LENGTH, nextProjectColor, type Project } from "@/lib/projects"
+
+interface ProjectPickerProps {
+  theme: { background: string; stars: string }
+  projects: Project[]
+  selectedId: string | null
+  onSelect: (id: string | null) => void
+  onCreate: (name: string, color: string) => void
+  onRemove: (id: string) => void
+}
+
+export function ProjectPicker({ theme, projects, selectedId, onSelect, onCreate, onRemove }: ProjectPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [color, setColor] = useState(() => nextProjectColor(projects))
+
+  const selected = projects.find((project) => project.id === selectedId) ?? null
+
+  const handleCreate = () => {
+    if (!name.trim()) return
+    onCreate(name, color)
+    setName("")
+    setColor(nextProjectColor([...projects, { id: "", name, color }]))
+    setOpen(false)
+  }
+
+  const swatch = (swatchColor: string) => (
+    <span className="inline-block w-2 h-2 border" style={{ backgroundColor: swatchColor, borderColor: theme.stars }} />
+  )
+
+  return (
+    <div className="relative pointer-events-auto font-mono text-xs uppercase tracking-wide" style={{ color: theme.stars }}>
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-2">
+        {selected ? swatch(selected.color) : swatch("transparent")}
+        <span>{selected ? selected.name : "NO PROJECT"}</span>
+        <span className="opacity-50">{open ? "▴" : "▾"}</span>
+      </button>
+
+      {open && (
+        <div
+          className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 border p-2 flex flex-col gap-1 min-w-[200px] z-50"
+          style={{ backgroundColor: theme.background, borderColor: theme.stars }}
+        >
+          <button
+            onClick={() => {
+              onSelect(null)
+              setOpen(false)
+            }}
+            className="flex items-center gap-2 px-1 py-0.5 text-left"
+            style={{ opacity: selectedId === null ? 1 : 0.6 }}
+          >
+            {swatch("transparent")}
+            NO PROJECT
+          </button>
+
+          {projects.map((project) => (
+            <div key={project.id} className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => {
+                  onSelect(project.id)
+                  setOpen(false)
+                }}
+                className="flex items-center gap-2 px-1 py-0.5 text-left flex-1 truncate"
+                style={{ opacity: selectedId === project.id ? 1 : 0.6 }}
+              >
+                {swatch(project.color)}
+                {project.name}
+              </button>
+              <button
+                onClick={() => onRemove(project.id)}
+                className="px-1 opacity-50 hover:opacity-100"
+                aria-label={`Remove ${project.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+
+          {/* New project */}
+          <div className="flex items-center gap-2 border-t pt-2 mt-1" style={{ borderColor: `${theme.stars}55` }}>
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-4 h-4 p-0 border-0 bg-transparent cursor-pointer"
+              aria-label="Project colour"
+            />
+            <input
+              type="text"
+              value={name}
+              maxLength={MAX_PROJECT_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              placeholder="NEW PROJECT"
+              className="flex-1 min-w-0 border-b bg-transparent outline-none uppercase placeholder:opacity-50"
+              style={{ borderColor: theme.stars, color: theme.stars }}
+            />
+            <button onClick={handleCreate} className="opacity-70 hover:opacity-100">
+              ADD
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+
+import { normalizeSettings, SETTINGS_LIMITS, type TimerSettings } from "@/lib/settings"
+
+interface SettingsPanelProps {
+  theme: { background: string; stars: string }
+  settings: TimerSettings
+  onSave: (settings: TimerSettings) => void
+  onClose: () => void
+  children?: ReactNode // Extra sections rendered under the fields
+}
+
+const FIELDS: { key: keyof TimerSettings; label: string; min: number; max: number }[] = [
+  { key: "workMinutes", label: "WARP (MIN)", min: SETTINGS_LIMITS.MIN_MINUTES, max: SETTINGS_LIMITS.MAX_MINUTES },
+  { key: "breakMinutes", label: "SURFACE (MIN)", min: SETTINGS_LIMITS.MIN_MINUTES, max: SETTINGS_LIMITS.MAX_MINUTES },
+  {
+    key: "longBreakMinutes",
+    label: "LONG SURFACE (MIN)",
+    min: SETTINGS_LIMITS.MIN_MINUTES,
+    max: SETTINGS_LIMITS.MAX_MINUTES,
+  },
+  {
+    key: "longBreakInterval",
+    label: "TUNNELS PER CYCLE",
+    min: SETTINGS_LIMITS.MIN_INTERVAL,
+    max: SETTINGS_LIMITS.MAX_INTERVAL,
+  },
+  { key: "dailyGoal", label: "DAILY GOAL (TUNNELS)", min: SETTINGS_LIMITS.MIN_GOAL, max: SETTINGS_LIMITS.MAX_GOAL },
+  { key: "dayRolloverHour", label: "DAY STARTS (HOUR)", min: SETTINGS_LIMITS.MIN_HOUR, max: SETTINGS_LIMITS.MAX_HOUR },
+]
+
+const toDraft = (settings: TimerSettings) =>
+  Object.fromEntries(FIELDS.map(({ key }) => [key, settings[key].toString()])) as Record<keyof TimerSettings, string>
+
+export function SettingsPanel({ theme, settings, onSave, onClose, children }: SettingsPanelProps) {
+  // Keep raw input strings so the user can clear a field while typing
+  const [draft, setDraft] = useState(() => toDraft(settings))
+
+  // Pick up settings replaced while the panel is open, e.g. by an import
+  useEffect(() => {
+    setDraft(toDraft(settings))
+  }, [settings])
+
+  const handleSave = () => {
+    // Fields left blank keep their current value rather than resetting to the default
+    const parsed = Object.fromEntries(
+      FIELDS.map(({ key }) => [key, Number.parseInt(draft[key], 10)]).filter(([, value]) => Number.isFinite(value)),
+    )
+    onSave(normalizeSettings({ ...settings, ...parsed }))
+  }
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center pointer-events-auto z-40"
+      style={{ backgroundColor: `${theme.background}cc` }}
+      onClick={onClose}
+    >
+      <div
+        className="border px-6 py-5 font-mono text-xs uppercase min-w-[260px]"
+        style={{ backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="mb-4 opacity-70 tracking-wide">SETTINGS</h3>
+
+        <div className="flex flex-col gap-3 mb-5">
+          {FIELDS.map(({ key, label, min, max }) => (
+            <label key={key} className="flex items-center justify-between gap-4">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={min}
+                max={max}
+                value={draft[key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                className="w-16 border px-2 py-1 text-right bg-transparent outline-none"
+                style={{ borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+              />
+            </label>
+          ))}
+        </div>
+
+        {children}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="border px-3 py-1 tracking-wide transition-colors duration-200"
+            style={{ borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+          >
+            CANCEL
+          </button>
+          <button
+            onClick={handleSave}
+            className="border px-3 py-1 tracking-wide transition-colors duration-200"
+            style={{ backgroundColor: theme.stars, borderColor: theme.stars, color: theme.background, borderRadius: 0 }}
+          >
+            SAVE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
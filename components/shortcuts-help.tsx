@@ -0,0 +1,123 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import {
+  DEFAULT_SHORTCUTS,
+  formatKey,
+  isBindableKey,
+  keyFromEvent,
+  rebindShortcut,
+  SHORTCUT_LABELS,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "@/lib/shortcuts"
+
+interface ShortcutsHelpProps {
+  theme: { background: string; stars: string }
+  shortcuts: ShortcutMap
+  onChange: (shortcuts: ShortcutMap) => void
+  onClose: () => void
+}
+
+export function ShortcutsHelp({ theme, shortcuts, onChange, onClose }: ShortcutsHelpProps) {
+  const [rebinding, setRebinding] = useState<ShortcutAction | null>(null)
+
+  // Take the next key press as the new binding, before the global shortcuts see it.
+  // Esc cancels and keeps the current binding, rather than swapping Esc away from DISENGAGE.
+  useEffect(() => {
+    if (!rebinding) return
+
+    const captureKey = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+      const key = keyFromEvent(event)
+      if (key === "Escape") {
+        setRebinding(null)
+        return
+      }
+      if (!isBindableKey(key)) return
+      onChange(rebindShortcut(shortcuts, rebinding, key))
+      setRebinding(null)
+    }
+
+    window.addEventListener("keydown", captureKey, { capture: true })
+    return () => window.removeEventListener("keydown", captureKey, { capture: true })
+  }, [rebinding, shortcuts, onChange])
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center pointer-events-auto z-40"
+      style={{ backgroundColor: `${theme.background}cc` }}
+      onClick={onClose}
+    >
+      <div
+        className="border px-6 py-5 font-mono text-xs uppercase min-w-[300px]"
+        style={{ backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="mb-4 opacity-70 tracking-wide">KEYS</h3>
+
+        <div className="flex flex-col gap-2 mb-5">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map((action) => (
+            <div key={action} className="flex items-center justify-between gap-6">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              <span className="flex items-center gap-2">
+                {/* Also the only way back to ESC, since ESC cancels a rebind */}
+                {shortcuts[action] !== DEFAULT_SHORTCUTS[action] && (
+                  <button
+                    onClick={() => {
+                      setRebinding(null)
+                      onChange(rebindShortcut(shortcuts, action, DEFAULT_SHORTCUTS[action]))
+                    }}
+                    className="opacity-70 hover:opacity-100"
+                    aria-label={`Reset ${SHORTCUT_LABELS[action]} to ${formatKey(DEFAULT_SHORTCUTS[action])}`}
+                    title={`Reset to ${formatKey(DEFAULT_SHORTCUTS[action])}`}
+                  >
+                    ↺
+                  </button>
+                )}
+                <button
+                  onClick={() => setRebinding(rebinding === action ? null : action)}
+                  className="border px-2 py-0.5 min-w-[64px] tracking-wide"
+                  style={{
+                    borderColor: theme.stars,
+                    borderRadius: 0,
+                    backgroundColor: rebinding === action ? theme.stars : "transparent",
+                    color: rebinding === action ? theme.background : theme.stars,
+                  }}
+                  aria-label={`Rebind ${SHORTCUT_LABELS[action]}`}
+                >
+                  {rebinding === action ? "PRESS A KEY" : formatKey(shortcuts[action])}
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <p className="opacity-50 mb-4" style={{ fontSize: "9px" }}>
+          CLICK A KEY TO REMAP IT, ESC TO CANCEL. ↺ RESTORES ONE DEFAULT. A KEY ALREADY IN USE SWAPS PLACES.
+          <br />
+          CTRL+K OPENS THE COMMAND PALETTE.
+        </p>
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => onChange(DEFAULT_SHORTCUTS)}
+            className="border px-3 py-1 tracking-wide"
+            style={{ borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+          >
+            RESET
+          </button>
+          <button
+            onClick={onClose}
+            className="border px-3 py-1 tracking-wide"
+            style={{ backgroundColor: theme.stars, borderColor: theme.stars, color: theme.background, borderRadius: 0 }}
+          >
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+"use client"
+
+import { useRef, useState } from "react"
+
+import { FieldSlider } from "@/components/field-slider"
+import {
+  MIXER_LAYERS,
+  trackForTheme,
+  trackVolume,
+  type AmbientTrack,
+  type MixerLayer,
+  type SoundSettings,
+} from "@/lib/sound-library"
+
+interface SoundSectionProps {
+  theme: { background: string; stars: string }
+  themeKey: string
+  themeName: string
+  tracks: AmbientTrack[] // Built-ins, then the user's own files
+  settings: SoundSettings
+  onChange: (settings: SoundSettings) => void
+  onAddFile: (file: File) => Promise<void>
+  onRemoveTrack: (id: string) => void
+}
+
+const LAYER_LABELS: Record<MixerLayer, string> = {
+  work: "WORK",
+  break: "BREAK",
+  idle: "IDLE",
+}
+
+export function SoundSection({
+  theme,
+  themeKey,
+  themeName,
+  tracks,
+  settings,
+  onChange,
+  onAddFile,
+  onRemoveTrack,
+}: SoundSectionProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState(false)
+  const [failure, setFailure] = useState<string | null>(null)
+
+  const selected = trackForTheme(settings, themeKey, tracks)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBusy(true)
+    setFailure(null)
+    try {
+      await onAddFile(file)
+    } catch (error) {
+      setFailure(error instanceof Error ? error.message : String(error))
+    } finally {
+      setBusy(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const selectTrack = (id: string) => {
+    onChange({ ...settings, trackByTheme: { ...settings.trackByTheme, [themeKey]: id } })
+  }
+
+  const setVolume = (id: string, volume: number) => {
+    onChange({ ...settings, volumes: { ...settings.volumes, [id]: volume } })
+  }
+
+  const setLayerVolume = (layer: MixerLayer, volume: number) => {
+    onChange({ ...settings, layerVolumes: { ...settings.layerVolumes, [layer]: volume } })
+  }
+
+  const setLayerTrack = (layer: Exclude<MixerLayer, "work">, id: string) => {
+    onChange({ ...settings, layerTracks: { ...settings.layerTracks, [layer]: id || null } })
+  }
+
+  const toggleStyle = (on: boolean) => ({
+    backgroundColor: on ? theme.stars : "transparent",
+    color: on ? theme.background : theme.stars,
+    border: `1px solid ${theme.stars}`,
+    borderRadius: 0,
+  })
+
+  // Work follows the FIELD's pick below; break and idle each choose a track here
+  const layerSource = (layer: MixerLayer) => {
+    if (layer === "work") return <span className="opacity-70 truncate">{selected.name}</span>
+    const id = settings.layerTracks[layer]
+    return (
+      <select
+        value={tracks.some((track) => track.id === id) ? (id ?? "") : ""}
+        onChange={(e) => setLayerTrack(layer, e.target.value)}
+        className="border px-1 py-0.5 uppercase min-w-0"
+        style={{ backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+        aria-label={`${LAYER_LABELS[layer]} track`}
+      >
+        <option value="">OFF</option>
+        {tracks.map((track) => (
+          <option key={track.id} value={track.id}>
+            {track.name}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  return (
+    <div className="border-t pt-4 mb-5" style={{ borderColor: `${theme.stars}55` }}>
+      <h4 className="mb-3 opacity-70 tracking-wide">SOUND</h4>
+      <div className="flex flex-col gap-2 mb-4">
+        <div className="flex items-center justify-between gap-4">
+          <span>MASTER</span>
+          <FieldSlider
+            theme={theme}
+            value={settings.master}
+            onChange={(master) => onChange({ ...settings, master })}
+            label="Master volume"
+            className="w-24"
+          />
+        </div>
+        {MIXER_LAYERS.map((layer) => (
+          <div key={layer} className="flex items-center justify-between gap-4">
+            <span className="w-12 shrink-0">{LAYER_LABELS[layer]}</span>
+            <span className="flex-1 min-w-0 flex">{layerSource(layer)}</span>
+            <FieldSlider
+              theme={theme}
+              value={settings.layerVolumes[layer]}
+              onChange={(volume) => setLayerVolume(layer, volume)}
+              label={`${LAYER_LABELS[layer]} layer volume`}
+              className="w-24 shrink-0"
+            />
+          </div>
+        ))}
+        <p className="opacity-50" style={{ fontSize: "9px" }}>
+          LAYERS CROSSFADE AS THE SESSION MOVES BETWEEN PHASES.
+        </p>
+        <div className="flex items-center justify-between gap-4">
+          <span>MUTE BREAKS</span>
+          <button
+            onClick={() => onChange({ ...settings, muteBreaks: !settings.muteBreaks })}
+            className="px-2 py-0.5 tracking-wide"
+            style={toggleStyle(settings.muteBreaks)}
+          >
+            {settings.muteBreaks ? "ON" : "OFF"}
+          </button>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <span>STARS FOLLOW SOUND</span>
+          <button
+            onClick={() => onChange({ ...settings, reactiveStars: !settings.reactiveStars })}
+            className="px-2 py-0.5 tracking-wide"
+            style={toggleStyle(settings.reactiveStars)}
+          >
+            {settings.reactiveStars ? "ON" : "OFF"}
+          </button>
+        </div>
+      </div>
+
+      <h4 className="mb-3 opacity-70 tracking-wide">WORK TRACK · {themeName}</h4>
+      <div className="flex flex-col gap-2">
+        {tracks.map((track) => (
+          <div key={track.id} className="flex items-center justify-between gap-4">
+            <button
+              onClick={() => selectTrack(track.id)}
+              className="px-2 py-0.5 tracking-wide text-left truncate min-w-0"
+              style={{
+                backgroundColor: selected.id === track.id ? theme.stars : "transparent",
+                color: selected.id === track.id ? theme.background : theme.stars,
+                border: `1px solid ${theme.stars}`,
+                borderRadius: 0,
+              }}
+            >
+              {track.name}
+            </button>
+            <span className="flex items-center gap-2 shrink-0">
+              <FieldSlider
+                theme={theme}
+                value={trackVolume(settings, track.id)}
+                onChange={(volume) => setVolume(track.id, volume)}
+                label={`${track.name} volume`}
+                className="w-24"
+              />
+              {track.custom && (
+                <button
+                  onClick={() => onRemoveTrack(track.id)}
+                  className="opacity-70 hover:opacity-100"
+                  aria-label={`Remove ${track.name}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="self-start opacity-70 hover:opacity-100 tracking-wide disabled:opacity-50"
+        >
+          {busy ? "ADDING…" : "+ ADD SOUND FILE"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        {failure && (
+          <p className="normal-case opacity-70" style={{ fontSize: "10px" }}>
+            {failure}
+          </p>
+        )}
+        <p className="opacity-50" style={{ fontSize: "9px" }}>
+          EACH FIELD KEEPS ITS OWN TRACK. ADDED FILES STAY ON THIS DEVICE.
+        </p>
+      </div>
+    </div>
+  )
+}
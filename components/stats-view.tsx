@@ -0,0 +1,249 @@
+"use client"
+
+import { useMemo, useState, type CSSProperties } from "react"
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts"
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { Project } from "@/lib/projects"
+import type { SessionRecord } from "@/lib/session-history"
+import {
+  averageBreakLength,
+  focusedMinutesByPeriod,
+  focusedMinutesByProjectPerWeek,
+  NO_PROJECT,
+  sessionsByHour,
+  summarizeOutcomes,
+  totalFocusedTime,
+  type StatsPeriod,
+} from "@/lib/session-stats"
+
+interface StatsViewProps {
+  theme: { background: string; stars: string; starsSecondary: string }
+  records: SessionRecord[]
+  projects: Project[]
+  onClose: () => void
+}
+
+const PERIODS: { key: StatsPeriod; label: string }[] = [
+  { key: "day", label: "DAY" },
+  { key: "week", label: "WEEK" },
+  { key: "month", label: "MONTH" },
+]
+
+// Recharts and the tooltip read the theme through these CSS variables
+const CHART_CLASSES =
+  "[&_.recharts-cartesian-axis-tick_text]:fill-[--stats-fg] [&_.recharts-cartesian-grid_line]:stroke-[--stats-grid] [&_.recharts-rectangle.recharts-tooltip-cursor]:fill-[--stats-grid]"
+const TOOLTIP_CLASSES = "rounded-none border-[--stats-fg] bg-[--stats-bg] text-[--stats-fg] font-mono uppercase"
+
+const formatDuration = (milliseconds: number) => {
+  const totalMinutes = Math.round(milliseconds / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}H ${minutes}M` : `${minutes}M`
+}
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`
+
+// Weeks listed in the per-project table, most recent last
+const TABLE_WEEKS = 4
+
+export function StatsView({ theme, records, projects, onClose }: StatsViewProps) {
+  const [period, setPeriod] = useState<StatsPeriod>("day")
+
+  const focusData = useMemo(() => focusedMinutesByPeriod(records, period), [records, period])
+  const hourData = useMemo(() => sessionsByHour(records), [records])
+  const outcomes = useMemo(() => summarizeOutcomes(records), [records])
+  const averageBreak = useMemo(() => averageBreakLength(records), [records])
+  const totalFocus = useMemo(() => totalFocusedTime(records), [records])
+  const projectWeeks = useMemo(() => focusedMinutesByProjectPerWeek(records), [records])
+
+  // Every project logged in the charted weeks, in picker order, then removed projects and unassigned time
+  const loggedKeys = new Set(projectWeeks.flatMap((week) => Object.keys(week.minutes)))
+  const projectKeys = [
+    ...projects.map((project) => project.id).filter((key) => loggedKeys.has(key)),
+    ...Array.from(loggedKeys).filter((key) => key !== NO_PROJECT && !projects.some((project) => project.id === key)),
+    ...(loggedKeys.has(NO_PROJECT) ? [NO_PROJECT] : []),
+  ]
+  const projectColor = (key: string) => projects.find((project) => project.id === key)?.color ?? theme.starsSecondary
+  const projectName = (key: string) =>
+    projects.find((project) => project.id === key)?.name ?? (key === NO_PROJECT ? "NO PROJECT" : "REMOVED PROJECT")
+  const projectChartData = projectWeeks.map((week) => ({ label: week.label, ...week.minutes }))
+  const tableWeeks = projectWeeks.slice(-TABLE_WEEKS)
+
+  const outcomeData = [
+    { name: "completed", value: outcomes.completed, fill: "var(--color-completed)" },
+    { name: "disengaged", value: outcomes.disengaged, fill: "var(--color-disengaged)" },
+  ]
+
+  const chartConfig = {
+    minutes: { label: "MINUTES", color: theme.stars },
+    sessions: { label: "TUNNELS", color: theme.stars },
+    completed: { label: "COMPLETED", color: theme.stars },
+    disengaged: { label: "DISENGAGED", color: theme.starsSecondary },
+    ...Object.fromEntries(projectKeys.map((key) => [key, { label: projectName(key), color: projectColor(key) }])),
+  } satisfies ChartConfig
+
+  const chartVars = {
+    "--stats-fg": theme.stars,
+    "--stats-bg": theme.background,
+    "--stats-grid": `${theme.stars}33`,
+  } as CSSProperties
+
+  const summary = [
+    { label: "FOCUSED", value: formatDuration(totalFocus) },
+    { label: "COMPLETION", value: formatPercent(outcomes.completionRate) },
+    { label: "DISENGAGE", value: formatPercent(outcomes.disengageRate) },
+    { label: "AVG SURFACE", value: formatDuration(averageBreak) },
+  ]
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center pointer-events-auto z-40 p-4"
+      style={{ backgroundColor: `${theme.background}cc` }}
+      onClick={onClose}
+    >
+      <div
+        className="border px-6 py-5 font-mono text-xs uppercase w-full max-w-3xl max-h-full overflow-y-auto"
+        style={{ ...chartVars, backgroundColor: theme.background, borderColor: theme.stars, color: theme.stars }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="opacity-70 tracking-wide">STATS</h3>
+          <button onClick={onClose} className="opacity-70 hover:opacity-100 tracking-wide transition-opacity duration-200">
+            CLOSE
+          </button>
+        </div>
+
+        {records.length === 0 ? (
+          <p className="opacity-70 py-8 text-center">NO TUNNELS LOGGED YET.</p>
+        ) : (
+          <>
+            {/* Summary figures */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-6">
+              {summary.map(({ label, value }) => (
+                <div key={label} className="border px-3 py-2" style={{ borderColor: theme.stars }}>
+                  <div className="opacity-70" style={{ fontSize: "9px" }}>
+                    {label}
+                  </div>
+                  <div className="text-sm mt-1">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Focused minutes per period */}
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="opacity-70">FOCUSED MINUTES</h4>
+              <div className="flex gap-2">
+                {PERIODS.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    onClick={() => setPeriod(key)}
+                    className="px-2 py-0.5 tracking-wide transition-colors duration-200"
+                    style={{
+                      backgroundColor: period === key ? theme.stars : "transparent",
+                      color: period === key ? theme.background : theme.stars,
+                      border: `1px solid ${theme.stars}`,
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <ChartContainer config={chartConfig} className={`h-48 w-full aspect-auto mb-6 ${CHART_CLASSES}`}>
+              <BarChart data={focusData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent className={TOOLTIP_CLASSES} />} />
+                <Bar dataKey="minutes" fill="var(--color-minutes)" />
+              </BarChart>
+            </ChartContainer>
+
+            <div className="grid sm:grid-cols-[1fr_2fr] gap-6">
+              {/* Completion versus DISENGAGE */}
+              <div>
+                <h4 className="opacity-70 mb-2">COMPLETED / DISENGAGED</h4>
+                <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent className={TOOLTIP_CLASSES} nameKey="name" hideLabel />} />
+                    <Pie data={outcomeData} dataKey="value" nameKey="name" innerRadius={36} outerRadius={60} stroke="none">
+                      {outcomeData.map((entry) => (
+                        <Cell key={entry.name} fill={entry.fill} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ChartContainer>
+                {outcomes.cruise > 0 && (
+                  <p className="opacity-70 text-center" style={{ fontSize: "9px" }}>
+                    + {outcomes.cruise} CRUISE RUN{outcomes.cruise !== 1 ? "S" : ""}
+                  </p>
+                )}
+              </div>
+
+              {/* Hour-of-day distribution */}
+              <div>
+                <h4 className="opacity-70 mb-2">LAUNCHES BY HOUR</h4>
+                <ChartContainer config={chartConfig} className={`h-40 w-full aspect-auto ${CHART_CLASSES}`}>
+                  <BarChart data={hourData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} interval={2} />
+                    <YAxis tickLine={false} axisLine={false} width={24} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent className={TOOLTIP_CLASSES} />} />
+                    <Bar dataKey="sessions" fill="var(--color-sessions)" />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            {/* Focused time per project per week */}
+            {projectKeys.length > 0 && (
+              <div className="mt-6">
+                <h4 className="opacity-70 mb-2">PROJECTS BY WEEK</h4>
+                <ChartContainer config={chartConfig} className={`h-40 w-full aspect-auto mb-4 ${CHART_CLASSES}`}>
+                  <BarChart data={projectChartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                    <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent className={TOOLTIP_CLASSES} />} />
+                    {projectKeys.map((key) => (
+                      <Bar key={key} dataKey={key} stackId="projects" fill={projectColor(key)} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="opacity-70" style={{ fontSize: "9px" }}>
+                      <th className="font-normal py-1">PROJECT</th>
+                      {tableWeeks.map((week) => (
+                        <th key={week.start} className="font-normal py-1 text-right">
+                          WK {week.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {projectKeys.map((key) => (
+                      <tr key={key} className="border-t" style={{ borderColor: `${theme.stars}33` }}>
+                        <td className="py-1">
+                          <span className="inline-block w-2 h-2 mr-2" style={{ backgroundColor: projectColor(key) }} />
+                          {projectName(key)}
+                        </td>
+                        {tableWeeks.map((week) => (
+                          <td key={week.start} className="py-1 text-right">
+                            {formatDuration((week.minutes[key] ?? 0) * 60000)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
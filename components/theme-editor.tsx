@@ -0,0 +1,493 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { FieldSlider } from "@/components/field-slider"
+import {
+  createCustomTheme,
+  decodeThemeCode,
+  duplicateTheme,
+  encodeThemeCode,
+  MAX_THEME_NAME_LENGTH,
+  removeCustomTheme,
+  STARFIELD_LIMITS,
+  THEMES,
+  updateCustomTheme,
+  type CustomTheme,
+  type FieldGradient,
+  type FieldTheme,
+  type StarfieldOverrides,
+} from "@/lib/themes"
+
+interface ThemeEditorProps {
+  theme: { background: string; stars: string } // Follows the draft, so the panel previews it too
+  customThemes: CustomTheme[]
+  currentTheme: string
+  onChange: (themes: CustomTheme[]) => void
+  onSelect: (key: string) => void
+  onPreview: (theme: FieldTheme | null) => void // Draws a draft on the starfield while it's edited
+  onClose: () => void
+}
+
+interface Draft {
+  id: string | null // null until a new FIELD is saved
+  theme: FieldTheme
+}
+
+const COLOR_FIELDS: { key: "background" | "stars" | "starsSecondary" | "trail"; label: string }[] = [
+  { key: "background", label: "BACKGROUND" },
+  { key: "stars", label: "STARS" },
+  { key: "starsSecondary", label: "STARS · SECONDARY" },
+  { key: "trail", label: "TRAIL" },
+]
+
+const GRADIENT_TYPES: (FieldGradient["type"] | null)[] = [null, "linear", "radial"]
+const MAX_GRADIENT_STOPS = 4
+const ANGLE_RANGE = { min: 0, max: 360 }
+
+// What the starfield sliders show for a FIELD without overrides - CONFIG in app/page.tsx
+const STARFIELD_DEFAULTS = { numStars: 600, twinkle: 1 }
+
+// Sliders run 0-1; these map them onto a range and back
+const toUnit = (value: number, { min, max }: { min: number; max: number }) => (value - min) / (max - min)
+const fromUnit = (unit: number, { min, max }: { min: number; max: number }) => min + unit * (max - min)
+
+export function ThemeEditor({
+  theme,
+  customThemes,
+  currentTheme,
+  onChange,
+  onSelect,
+  onPreview,
+  onClose,
+}: ThemeEditorProps) {
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [code, setCode] = useState("")
+  const [codeError, setCodeError] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  // Preview the draft on the starfield, and put the saved FIELD back afterwards
+  useEffect(() => {
+    onPreview(draft?.theme ?? null)
+  }, [draft, onPreview])
+  useEffect(() => () => onPreview(null), [onPreview])
+
+  const edit = (id: string | null, source: FieldTheme) => {
+    setDraft({ id, theme: { ...source } })
+    setCopied(false)
+  }
+
+  const updateDraft = (changes: Partial<FieldTheme>) => {
+    if (!draft) return
+    setDraft({ ...draft, theme: { ...draft.theme, ...changes } })
+    setCopied(false)
+  }
+
+  const updateStarfield = (changes: StarfieldOverrides) => {
+    if (!draft) return
+    updateDraft({ starfield: { ...draft.theme.starfield, ...changes } })
+  }
+
+  // Switching type keeps the stops; linear gradients start out running top to bottom
+  const setGradientType = (type: FieldGradient["type"] | null) => {
+    if (!draft) return
+    const colors = draft.theme.gradient?.colors ?? [draft.theme.background, "#000000"]
+    const angle = draft.theme.gradient?.angle ?? 180
+    updateDraft({ gradient: type ? { type, colors, ...(type === "linear" && { angle }) } : undefined })
+  }
+
+  const updateGradient = (changes: Partial<FieldGradient>) => {
+    if (!draft?.theme.gradient) return
+    updateDraft({ gradient: { ...draft.theme.gradient, ...changes } })
+  }
+
+  const setNebula = (on: boolean) => {
+    if (!draft) return
+    updateDraft({
+      nebula: on
+        ? {
+            colors: [draft.theme.stars, draft.theme.starsSecondary],
+            intensity: 0.2,
+            seed: Math.floor(Math.random() * 10000), // A fresh cloud shape each time
+          }
+        : undefined,
+    })
+  }
+
+  const saveDraft = () => {
+    if (!draft) return
+    if (draft.id) {
+      onChange(updateCustomTheme(customThemes, draft.id, draft.theme))
+      onSelect(draft.id)
+    } else {
+      const { themes, theme: created } = createCustomTheme(customThemes, draft.theme)
+      onChange(themes)
+      onSelect(created.id)
+    }
+    setDraft(null)
+  }
+
+  const deleteTheme = (id: string) => {
+    onChange(removeCustomTheme(customThemes, id))
+  }
+
+  // A pasted code opens as an unsaved draft so it can be previewed first
+  const importCode = () => {
+    const decoded = decodeThemeCode(code)
+    if (!decoded) {
+      setCodeError(true)
+      return
+    }
+    setCode("")
+    setCodeError(false)
+    edit(null, decoded)
+  }
+
+  const copyCode = async () => {
+    if (!draft) return
+    try {
+      await navigator.clipboard.writeText(encodeThemeCode(draft.theme))
+      setCopied(true)
+    } catch (error) {
+      console.warn("Failed to copy FIELD code:", error)
+    }
+  }
+
+  const buttonStyle = (filled = false) => ({
+    backgroundColor: filled ? theme.stars : "transparent",
+    borderColor: theme.stars,
+    color: filled ? theme.background : theme.stars,
+    borderRadius: 0,
+  })
+
+  // The draft's optional layers, as the controls below show them
+  const gradient = draft?.theme.gradient
+  const nebula = draft?.theme.nebula
+  const numStars = draft?.theme.starfield?.numStars ?? STARFIELD_DEFAULTS.numStars
+  const twinkle = draft?.theme.starfield?.twinkle ?? STARFIELD_DEFAULTS.twinkle
+
+  return (
+    // No backdrop - the starfield behind is the preview
+    <div className="absolute inset-0 flex items-center justify-end p-6 pointer-events-auto z-40" onClick={onClose}>
+      <div
+        className="border px-6 py-5 font-mono text-xs uppercase w-[320px] max-h-full overflow-y-auto"
+        style={{ backgroundColor: `${theme.background}e6`, borderColor: theme.stars, color: theme.stars }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="mb-4 opacity-70 tracking-wide">{draft ? (draft.id ? "EDIT FIELD" : "NEW FIELD") : "FIELDS"}</h3>
+
+        {draft ? (
+          <>
+            <label className="flex flex-col gap-1 mb-4">
+              <span className="opacity-70">NAME</span>
+              <input
+                type="text"
+                value={draft.theme.name}
+                maxLength={MAX_THEME_NAME_LENGTH}
+                onChange={(e) => updateDraft({ name: e.target.value.toUpperCase() })}
+                className="bg-transparent border px-2 py-1 outline-none uppercase"
+                style={{ borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+              />
+            </label>
+
+            <div className="flex flex-col gap-2 mb-4">
+              {COLOR_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex items-center justify-between gap-4">
+                  <span>{label}</span>
+                  <span className="flex items-center gap-2">
+                    {/* Trails follow each star's colour until one is picked */}
+                    <span className="opacity-60">{draft.theme[key] ?? "STAR"}</span>
+                    <input
+                      type="color"
+                      value={draft.theme[key] ?? draft.theme.stars}
+                      onChange={(e) => updateDraft({ [key]: e.target.value })}
+                      className="w-8 h-6 cursor-pointer bg-transparent border"
+                      style={{ borderColor: theme.stars, borderRadius: 0 }}
+                    />
+                  </span>
+                </label>
+              ))}
+              {draft.theme.trail && (
+                <button
+                  onClick={() => updateDraft({ trail: undefined })}
+                  className="self-end opacity-70 hover:opacity-100"
+                >
+                  MATCH STARS
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2 mb-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="opacity-70">GRADIENT</span>
+                <span className="flex gap-1">
+                  {GRADIENT_TYPES.map((type) => (
+                    <button
+                      key={type ?? "off"}
+                      onClick={() => setGradientType(type)}
+                      className="border px-2 tracking-wide"
+                      style={buttonStyle((gradient?.type ?? null) === type)}
+                    >
+                      {type ?? "OFF"}
+                    </button>
+                  ))}
+                </span>
+              </div>
+              {gradient && (
+                <>
+                  <div className="flex items-center justify-between gap-4">
+                    <span>{gradient.type === "radial" ? "STOPS · CENTRE OUT" : "STOPS"}</span>
+                    <span className="flex items-center gap-2">
+                      {gradient.colors.map((color, index) => (
+                        <input
+                          key={index}
+                          type="color"
+                          value={color}
+                          onChange={(e) =>
+                            updateGradient({
+                              colors: gradient.colors.map((stop, i) => (i === index ? e.target.value : stop)),
+                            })
+                          }
+                          className="w-6 h-6 cursor-pointer bg-transparent border"
+                          style={{ borderColor: theme.stars, borderRadius: 0 }}
+                          aria-label={`Gradient stop ${index + 1}`}
+                        />
+                      ))}
+                      {gradient.colors.length > 2 && (
+                        <button
+                          onClick={() => updateGradient({ colors: gradient.colors.slice(0, -1) })}
+                          className="opacity-70 hover:opacity-100"
+                          aria-label="Remove last stop"
+                        >
+                          −
+                        </button>
+                      )}
+                      {gradient.colors.length < MAX_GRADIENT_STOPS && (
+                        <button
+                          onClick={() => updateGradient({ colors: [...gradient.colors, draft.theme.background] })}
+                          className="opacity-70 hover:opacity-100"
+                          aria-label="Add stop"
+                        >
+                          +
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  {gradient.type === "linear" && (
+                    <div className="flex items-center justify-between gap-4">
+                      <span>ANGLE</span>
+                      <span className="flex items-center gap-2">
+                        <span className="opacity-60">{gradient.angle ?? 180}°</span>
+                        <FieldSlider
+                          theme={theme}
+                          value={toUnit(gradient.angle ?? 180, ANGLE_RANGE)}
+                          onChange={(unit) => updateGradient({ angle: Math.round(fromUnit(unit, ANGLE_RANGE)) })}
+                          label="Gradient angle"
+                          className="w-24"
+                        />
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2 mb-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="opacity-70">NEBULA</span>
+                <span className="flex gap-1">
+                  {[false, true].map((on) => (
+                    <button
+                      key={String(on)}
+                      onClick={() => setNebula(on)}
+                      className="border px-2 tracking-wide"
+                      style={buttonStyle(Boolean(nebula) === on)}
+                    >
+                      {on ? "ON" : "OFF"}
+                    </button>
+                  ))}
+                </span>
+              </div>
+              {nebula && (
+                <>
+                  <div className="flex items-center justify-between gap-4">
+                    <span>COLOURS</span>
+                    <span className="flex items-center gap-2">
+                      {nebula.colors.map((color, index) => (
+                        <input
+                          key={index}
+                          type="color"
+                          value={color}
+                          onChange={(e) => {
+                            const colors: [string, string] = [...nebula.colors]
+                            colors[index] = e.target.value
+                            updateDraft({ nebula: { ...nebula, colors } })
+                          }}
+                          className="w-6 h-6 cursor-pointer bg-transparent border"
+                          style={{ borderColor: theme.stars, borderRadius: 0 }}
+                          aria-label={`Nebula colour ${index + 1}`}
+                        />
+                      ))}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <span>INTENSITY</span>
+                    <span className="flex items-center gap-2">
+                      <span className="opacity-60">{Math.round(nebula.intensity * 100)}%</span>
+                      <FieldSlider
+                        theme={theme}
+                        value={nebula.intensity}
+                        onChange={(intensity) => updateDraft({ nebula: { ...nebula, intensity } })}
+                        label="Nebula intensity"
+                        className="w-24"
+                      />
+                    </span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2 mb-4">
+              <span className="opacity-70">STARFIELD</span>
+              <div className="flex items-center justify-between gap-4">
+                <span>STARS</span>
+                <span className="flex items-center gap-2">
+                  <span className="opacity-60">{numStars}</span>
+                  <FieldSlider
+                    theme={theme}
+                    value={toUnit(numStars, STARFIELD_LIMITS.numStars)}
+                    onChange={(unit) =>
+                      updateStarfield({ numStars: Math.round(fromUnit(unit, STARFIELD_LIMITS.numStars)) })
+                    }
+                    label="Star count"
+                    className="w-24"
+                  />
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <span>TWINKLE</span>
+                <span className="flex items-center gap-2">
+                  <span className="opacity-60">
+                    {Math.round(twinkle * 100)}%
+                  </span>
+                  <FieldSlider
+                    theme={theme}
+                    value={toUnit(twinkle, STARFIELD_LIMITS.twinkle)}
+                    onChange={(unit) => updateStarfield({ twinkle: fromUnit(unit, STARFIELD_LIMITS.twinkle) })}
+                    label="Twinkle"
+                    className="w-24"
+                  />
+                </span>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1 mb-5">
+              <span className="opacity-70">SHARE CODE</span>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={encodeThemeCode(draft.theme)}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 bg-transparent border px-2 py-1 outline-none normal-case"
+                  style={{ borderColor: `${theme.stars}55`, color: theme.stars, borderRadius: 0 }}
+                />
+                <button onClick={copyCode} className="border px-2 py-1 tracking-wide" style={buttonStyle()}>
+                  {copied ? "COPIED" : "COPY"}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setDraft(null)} className="border px-3 py-1 tracking-wide" style={buttonStyle()}>
+                CANCEL
+              </button>
+              <button onClick={saveDraft} className="border px-3 py-1 tracking-wide" style={buttonStyle(true)}>
+                SAVE
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-col gap-2 mb-4">
+              {Object.entries(THEMES).map(([key, builtIn]) => (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <button
+                    onClick={() => onSelect(key)}
+                    className="truncate text-left hover:opacity-100"
+                    style={{ opacity: currentTheme === key ? 1 : 0.7 }}
+                  >
+                    {currentTheme === key ? "▸ " : ""}
+                    {builtIn.name}
+                  </button>
+                  <button onClick={() => edit(null, duplicateTheme(builtIn))} className="opacity-70 hover:opacity-100">
+                    DUPLICATE
+                  </button>
+                </div>
+              ))}
+
+              {customThemes.map((custom) => (
+                <div key={custom.id} className="flex items-center justify-between gap-4">
+                  <button
+                    onClick={() => onSelect(custom.id)}
+                    className="truncate text-left hover:opacity-100"
+                    style={{ opacity: currentTheme === custom.id ? 1 : 0.7 }}
+                  >
+                    {currentTheme === custom.id ? "▸ " : ""}
+                    {custom.name}
+                  </button>
+                  <span className="flex gap-3 shrink-0">
+                    <button onClick={() => edit(custom.id, custom)} className="opacity-70 hover:opacity-100">
+                      EDIT
+                    </button>
+                    <button onClick={() => edit(null, duplicateTheme(custom))} className="opacity-70 hover:opacity-100">
+                      DUP
+                    </button>
+                    <button onClick={() => deleteTheme(custom.id)} className="opacity-70 hover:opacity-100">
+                      ×
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-1 mb-5">
+              <span className="opacity-70">IMPORT CODE</span>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value)
+                    setCodeError(false)
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && importCode()}
+                  placeholder="FIELD:NAME:…"
+                  className="flex-1 min-w-0 bg-transparent border px-2 py-1 outline-none normal-case"
+                  style={{ borderColor: theme.stars, color: theme.stars, borderRadius: 0 }}
+                />
+                <button onClick={importCode} className="border px-2 py-1 tracking-wide" style={buttonStyle()}>
+                  LOAD
+                </button>
+              </div>
+              {codeError && <span className="opacity-70">NOT A FIELD CODE.</span>}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <button
+                onClick={() => edit(null, { ...THEMES.CORE, name: "CUSTOM" })}
+                className="border px-3 py-1 tracking-wide"
+                style={buttonStyle()}
+              >
+                + NEW
+              </button>
+              <button onClick={onClose} className="border px-3 py-1 tracking-wide" style={buttonStyle(true)}>
+                CLOSE
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
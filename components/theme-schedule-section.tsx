@@ -0,0 +1,141 @@
+"use client"
+
+import {
+  createThemeWindow,
+  sortThemeWindows,
+  type ThemeMode,
+  type ThemeSchedule,
+  type ThemeWindow,
+} from "@/lib/theme-schedule"
+import { findTheme, listThemeKeys, type CustomTheme } from "@/lib/themes"
+
+interface ThemeScheduleSectionProps {
+  theme: { background: string; stars: string }
+  schedule: ThemeSchedule
+  customThemes: CustomTheme[]
+  onChange: (schedule: ThemeSchedule) => void
+}
+
+const MODES: { mode: ThemeMode; label: string }[] = [
+  { mode: "manual", label: "MANUAL" },
+  { mode: "schedule", label: "BY TIME" },
+  { mode: "system", label: "FOLLOW OS" },
+]
+
+export function ThemeScheduleSection({ theme, schedule, customThemes, onChange }: ThemeScheduleSectionProps) {
+  const themeKeys = listThemeKeys(customThemes)
+
+  const toggleStyle = (on: boolean) => ({
+    backgroundColor: on ? theme.stars : "transparent",
+    color: on ? theme.background : theme.stars,
+    border: `1px solid ${theme.stars}`,
+    borderRadius: 0,
+  })
+
+  const inputStyle = {
+    backgroundColor: theme.background,
+    borderColor: theme.stars,
+    color: theme.stars,
+    borderRadius: 0,
+  }
+
+  const updateWindow = (id: string, changes: Partial<ThemeWindow>) => {
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((themeWindow) =>
+        themeWindow.id === id ? { ...themeWindow, ...changes } : themeWindow,
+      ),
+    })
+  }
+
+  const removeWindow = (id: string) => {
+    onChange({ ...schedule, windows: schedule.windows.filter((themeWindow) => themeWindow.id !== id) })
+  }
+
+  const themeSelect = (value: string, onSelect: (key: string) => void, label: string) => (
+    <select
+      value={themeKeys.includes(value) ? value : ""}
+      onChange={(e) => onSelect(e.target.value)}
+      className="border px-1 py-0.5 uppercase"
+      style={inputStyle}
+      aria-label={label}
+    >
+      {!themeKeys.includes(value) && <option value="">MISSING FIELD</option>}
+      {themeKeys.map((key) => (
+        <option key={key} value={key}>
+          {findTheme(key, customThemes)?.name}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="border-t pt-4 mb-5" style={{ borderColor: `${theme.stars}55` }}>
+      <h4 className="mb-3 opacity-70 tracking-wide">FIELD SCHEDULE</h4>
+      <div className="flex flex-col gap-3">
+        <div className="flex gap-2">
+          {MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...schedule, mode })}
+              className="px-2 py-0.5 tracking-wide"
+              style={toggleStyle(schedule.mode === mode)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {schedule.mode === "schedule" && (
+          <>
+            {sortThemeWindows(schedule.windows).map((themeWindow) => (
+              <div key={themeWindow.id} className="flex items-center justify-between gap-2">
+                <input
+                  type="time"
+                  value={themeWindow.start}
+                  onChange={(e) => e.target.value && updateWindow(themeWindow.id, { start: e.target.value })}
+                  className="border px-1 py-0.5"
+                  style={inputStyle}
+                  aria-label="Window start"
+                />
+                {themeSelect(themeWindow.theme, (key) => updateWindow(themeWindow.id, { theme: key }), "Window FIELD")}
+                <button
+                  onClick={() => removeWindow(themeWindow.id)}
+                  className="opacity-70 hover:opacity-100"
+                  aria-label="Remove window"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange({ ...schedule, windows: createThemeWindow(schedule.windows, "12:00", "CORE") })}
+              className="self-start opacity-70 hover:opacity-100 tracking-wide"
+            >
+              + ADD WINDOW
+            </button>
+          </>
+        )}
+
+        {schedule.mode === "system" && (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <span>LIGHT</span>
+              {themeSelect(schedule.light, (key) => onChange({ ...schedule, light: key }), "FIELD for light mode")}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <span>DARK</span>
+              {themeSelect(schedule.dark, (key) => onChange({ ...schedule, dark: key }), "FIELD for dark mode")}
+            </div>
+          </>
+        )}
+
+        {schedule.mode !== "manual" && (
+          <p className="opacity-50" style={{ fontSize: "9px" }}>
+            PICKING A FIELD BY HAND HOLDS UNTIL THE NEXT {schedule.mode === "schedule" ? "WINDOW" : "OS SWITCH"}.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
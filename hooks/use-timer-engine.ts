@@ -0,0 +1,71 @@
+import * as React from "react"
+
+import { createTimerEngine, type TimerEngine } from "@/lib/timer-engine"
+import { IDLE_TIMER, type TimerCommand, type TimerEvent, type TimerSnapshot } from "@/lib/timer-reducer"
+
+type TimerListener = (event: TimerEvent) => void
+
+// Run the timer engine in a Web Worker, or on the main thread where workers
+// aren't available. The latest snapshot is kept both as state for rendering and
+// in a ref for the animation loop, which reads it every frame.
+export function useTimerEngine() {
+  const [snapshot, setSnapshot] = React.useState<TimerSnapshot>(IDLE_TIMER)
+  const snapshotRef = React.useRef<TimerSnapshot>(IDLE_TIMER)
+  const sendRef = React.useRef<(command: TimerCommand) => void>(() => {})
+  const listenersRef = React.useRef(new Set<TimerListener>())
+
+  React.useEffect(() => {
+    const handleEvent = (event: TimerEvent) => {
+      if (event.type === "state") {
+        snapshotRef.current = event.snapshot
+        setSnapshot(event.snapshot)
+      }
+      listenersRef.current.forEach((listener) => listener(event))
+    }
+
+    let worker: Worker | null = null
+    let engine: TimerEngine | null = null
+    if (typeof Worker !== "undefined") {
+      try {
+        worker = new Worker(new URL("../lib/timer.worker.ts", import.meta.url))
+        worker.onmessage = (message: MessageEvent<TimerEvent>) => handleEvent(message.data)
+      } catch (error) {
+        console.warn("Timer worker unavailable, timing on the main thread:", error)
+        worker = null
+      }
+    }
+    if (worker) {
+      const activeWorker = worker
+      sendRef.current = (command) => activeWorker.postMessage(command)
+    } else {
+      engine = createTimerEngine(handleEvent)
+      sendRef.current = engine.send
+    }
+
+    // Re-check as soon as the tab is visible again, e.g. after the machine wakes
+    const sync = () => sendRef.current({ type: "sync" })
+    document.addEventListener("visibilitychange", sync)
+    window.addEventListener("focus", sync)
+
+    return () => {
+      document.removeEventListener("visibilitychange", sync)
+      window.removeEventListener("focus", sync)
+      worker?.terminate()
+      engine?.dispose()
+      sendRef.current = () => {}
+    }
+  }, [])
+
+  const send = React.useCallback((command: TimerCommand) => sendRef.current(command), [])
+
+  // Returns the unsubscribe function, so it can be handed straight back from an effect
+  const subscribe = React.useCallback((listener: TimerListener) => {
+    const listeners = listenersRef.current
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [])
+
+  return { snapshot, snapshotRef, send, subscribe }
+}
@@ -0,0 +1,43 @@
+// ===== ACTIVE SESSION =====
+// Snapshot of the running session so a reload, crash or browser restart picks
+// up where it left off. Times are wall-clock timestamps, so time that passed
+// while the page was closed is counted when it is restored.
+
+import type { Task } from "@/lib/tasks"
+import type { TimerSnapshot, TimerState } from "@/lib/timer-reducer"
+
+export interface ActiveSessionSnapshot {
+  timer: TimerSnapshot
+  holdSpeed: number // Starfield speed frozen by the HOLD
+  projectId: string | null
+  task: Task | null
+}
+
+// Runtime state of this browser - kept out of data exports and imports
+export const ACTIVE_SESSION_KEY = "warpomodoro-active-session"
+
+// EXIT COMPLETE counts too: reloading on it keeps the break offer
+const ACTIVE_STATES: TimerState[] = ["working", "paused", "workComplete", "break", "breakComplete"]
+
+export const isActiveSessionState = (state: TimerState) => ACTIVE_STATES.includes(state)
+
+export const saveActiveSession = (snapshot: ActiveSessionSnapshot) => {
+  localStorage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(snapshot))
+}
+
+export const clearActiveSession = () => {
+  localStorage.removeItem(ACTIVE_SESSION_KEY)
+}
+
+export const loadActiveSession = (): ActiveSessionSnapshot | null => {
+  try {
+    const saved = localStorage.getItem(ACTIVE_SESSION_KEY)
+    if (!saved) return null
+    const snapshot = JSON.parse(saved) as ActiveSessionSnapshot
+    const timer = snapshot?.timer
+    if (!timer || !isActiveSessionState(timer.state) || !Number.isFinite(timer.segmentStart)) return null
+    return snapshot
+  } catch {
+    return null
+  }
+}
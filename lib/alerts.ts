@@ -0,0 +1,113 @@
+// ===== ALERTS =====
+// Desktop notifications and synthesized chimes at session boundaries. Both are
+// opt-in. Notifications only show while the tab is in the background; chimes
+// play through their own gain node, apart from the ambient loop and its volume.
+
+export type AlertKind = "workComplete" | "breakComplete" | "breakHalfway"
+
+export interface AlertSettings {
+  notifications: boolean
+  chimes: boolean
+  chimeVolume: number // 0-1
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  notifications: false,
+  chimes: false,
+  chimeVolume: 0.5,
+}
+
+const STORAGE_KEY = "warpomodoro-alerts"
+
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const value: Partial<AlertSettings> = saved ? JSON.parse(saved) : {}
+    const volume = Number(value.chimeVolume)
+    return {
+      notifications: value.notifications === true,
+      chimes: value.chimes === true,
+      chimeVolume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : DEFAULT_ALERT_SETTINGS.chimeVolume,
+    }
+  } catch {
+    return DEFAULT_ALERT_SETTINGS
+  }
+}
+
+export const saveAlertSettings = (settings: AlertSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+// ----- Notifications -----
+
+export const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return "denied"
+  if (Notification.permission !== "default") return Notification.permission
+  return Notification.requestPermission()
+}
+
+// Show a notification if the tab is hidden - the canvas already says it when it's visible
+export const showNotification = (title: string, body: string) => {
+  if (!notificationsSupported() || Notification.permission !== "granted" || !document.hidden) return
+
+  // One tag so a new boundary replaces the previous alert instead of stacking
+  const notification = new Notification(title, { body, tag: "warpomodoro", silent: true })
+  notification.onclick = () => {
+    window.focus()
+    notification.close()
+  }
+}
+
+// ----- Chimes -----
+
+// Each chime is a few sine notes: frequency in Hz and start offset in seconds
+const CHIMES: Record<AlertKind, { frequency: number; offset: number }[]> = {
+  // Rising arpeggio - out of the tunnel
+  workComplete: [
+    { frequency: 523.25, offset: 0 },
+    { frequency: 659.25, offset: 0.14 },
+    { frequency: 783.99, offset: 0.28 },
+    { frequency: 1046.5, offset: 0.42 },
+  ],
+  // Two-note call back to the controls
+  breakComplete: [
+    { frequency: 392.0, offset: 0 },
+    { frequency: 587.33, offset: 0.22 },
+  ],
+  // Single soft ping
+  breakHalfway: [{ frequency: 659.25, offset: 0 }],
+}
+
+const NOTE_LENGTH = 1.4 // Seconds each note rings for
+const NOTE_PEAK = 0.3 // Per-note level before the chime volume, leaving headroom for overlaps
+
+export const playChime = (context: AudioContext, kind: AlertKind, volume: number) => {
+  const output = context.createGain()
+  output.gain.value = volume
+  output.connect(context.destination)
+
+  const start = context.currentTime
+  const notes = CHIMES[kind]
+  notes.forEach(({ frequency, offset }, index) => {
+    const oscillator = context.createOscillator()
+    const envelope = context.createGain()
+    const noteStart = start + offset
+
+    oscillator.type = "sine"
+    oscillator.frequency.value = frequency
+    // Quick strike, long exponential tail like a bell
+    envelope.gain.setValueAtTime(0.0001, noteStart)
+    envelope.gain.exponentialRampToValueAtTime(NOTE_PEAK, noteStart + 0.02)
+    envelope.gain.exponentialRampToValueAtTime(0.0001, noteStart + NOTE_LENGTH)
+
+    oscillator.connect(envelope)
+    envelope.connect(output)
+    oscillator.start(noteStart)
+    oscillator.stop(noteStart + NOTE_LENGTH)
+    if (index === notes.length - 1) {
+      oscillator.onended = () => output.disconnect()
+    }
+  })
+}
@@ -0,0 +1,298 @@
+// ===== AMBIENT VOICES =====
+// A voice plays one track from the sound library into the ambient graph, through
+// its own gain node that carries the track's volume. File tracks stream through a
+// media element; synth tracks are built from oscillators, noise buffers and filters.
+// The warp engine also follows the starfield: see follow() and dropOut().
+
+import type { AmbientTrack, SynthKind } from "@/lib/sound-library"
+
+export interface AmbientVoice {
+  track: AmbientTrack
+  output: GainNode // Connect this into the ambient graph
+  start: () => Promise<void>
+  stop: () => void // Stops for good and disconnects - start a new voice to play again
+  follow?: (intensity: number) => void // 0 idle drone - 1 full warp, called every frame
+  dropOut?: () => void // Falling sweep as the tunnel exits; follow() is ignored afterwards
+}
+
+interface SynthGraph {
+  sources: AudioScheduledSourceNode[]
+  cleanup?: () => void
+  follow?: (intensity: number) => void
+  dropOut?: () => void
+}
+
+type NoiseColor = "white" | "brown"
+
+const NOISE_SECONDS = 4
+
+const WARP_BASE_FREQUENCY = 41.2 // Low E
+const WARP_PITCH_RISE = 1.5 // Extra multiples of the base pitch at full warp
+const WARP_CUTOFF = { idle: 160, full: 2600 }
+const WARP_RESPONSE = 0.4 // Seconds for the engine to settle on a new speed
+const WARP_DROP_SECONDS = 1.5 // Matches the ambient fade-out
+
+// Noise buffers are costly to fill, so each context keeps one of each colour
+const noiseCache = new WeakMap<BaseAudioContext, Partial<Record<NoiseColor, AudioBuffer>>>()
+
+const noiseBuffer = (context: BaseAudioContext, color: NoiseColor) => {
+  const cached = noiseCache.get(context) ?? {}
+  const existing = cached[color]
+  if (existing) return existing
+
+  const buffer = context.createBuffer(1, context.sampleRate * NOISE_SECONDS, context.sampleRate)
+  const data = buffer.getChannelData(0)
+  let last = 0
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1
+    if (color === "white") {
+      data[i] = white
+    } else {
+      // Integrated white noise, leaking back towards zero so it doesn't wander off
+      last = (last + 0.02 * white) / 1.02
+      data[i] = last * 3.5
+    }
+  }
+
+  noiseCache.set(context, { ...cached, [color]: buffer })
+  return buffer
+}
+
+const loopNoise = (context: BaseAudioContext, color: NoiseColor) => {
+  const source = context.createBufferSource()
+  source.buffer = noiseBuffer(context, color)
+  source.loop = true
+  return source
+}
+
+const filter = (context: BaseAudioContext, type: BiquadFilterType, frequency: number, q = 1) => {
+  const node = context.createBiquadFilter()
+  node.type = type
+  node.frequency.value = frequency
+  node.Q.value = q
+  return node
+}
+
+const gain = (context: BaseAudioContext, value: number) => {
+  const node = context.createGain()
+  node.gain.value = value
+  return node
+}
+
+// A slow sine wobbling param around its current value by depth
+const lfo = (context: BaseAudioContext, param: AudioParam, frequency: number, depth: number) => {
+  const oscillator = context.createOscillator()
+  oscillator.frequency.value = frequency
+  oscillator.connect(gain(context, depth)).connect(param)
+  return oscillator
+}
+
+// Connect nodes in a chain, returning the last
+const chain = (...nodes: AudioNode[]) => nodes.reduce((from, to) => from.connect(to))
+
+// ----- Synth tracks -----
+
+const SYNTHS: Record<SynthKind, (context: AudioContext, output: AudioNode) => SynthGraph> = {
+  // Two slightly detuned saws and a sub under a slowly breathing lowpass, over a rumble
+  engineHum: (context, output) => {
+    const lowpass = filter(context, "lowpass", 180, 4)
+    const oscillators = [55, 55.4, 27.5].map((frequency, index) => {
+      const oscillator = context.createOscillator()
+      oscillator.type = index === 2 ? "sine" : "sawtooth"
+      oscillator.frequency.value = frequency
+      oscillator.connect(lowpass)
+      return oscillator
+    })
+    chain(lowpass, gain(context, 0.35), output)
+
+    const rumble = loopNoise(context, "brown")
+    chain(rumble, filter(context, "lowpass", 120), gain(context, 0.3), output)
+
+    return { sources: [...oscillators, rumble, lfo(context, lowpass.frequency, 0.08, 40)] }
+  },
+
+  // Hiss for the falling rain, a brown-noise body, and a patter band that comes and goes
+  rain: (context, output) => {
+    const hiss = loopNoise(context, "white")
+    chain(hiss, filter(context, "highpass", 400), filter(context, "lowpass", 6000), gain(context, 0.18), output)
+
+    const body = loopNoise(context, "brown")
+    chain(body, filter(context, "lowpass", 800), gain(context, 0.4), output)
+
+    const patter = loopNoise(context, "white")
+    const patterGain = gain(context, 0.08)
+    chain(patter, filter(context, "bandpass", 3000), patterGain, output)
+
+    return { sources: [hiss, body, patter, lfo(context, patterGain.gain, 0.3, 0.05)] }
+  },
+
+  brownNoise: (context, output) => {
+    const noise = loopNoise(context, "brown")
+    chain(noise, filter(context, "lowpass", 1000), gain(context, 0.8), output)
+    return { sources: [noise] }
+  },
+
+  // Voice-band murmur that swells unevenly, mains hum, and the odd console blip
+  bridgeChatter: (context, output) => {
+    const murmurs = [
+      { frequency: 500, rate: 0.6 },
+      { frequency: 900, rate: 1.3 },
+    ].flatMap(({ frequency, rate }) => {
+      const noise = loopNoise(context, "brown")
+      const level = gain(context, 0.25)
+      chain(noise, filter(context, "bandpass", frequency, 0.8), level, output)
+      return [noise, lfo(context, level.gain, rate, 0.2)]
+    })
+
+    const hum = context.createOscillator()
+    hum.frequency.value = 120
+    chain(hum, gain(context, 0.02), output)
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const blip = () => {
+      const tone = context.createOscillator()
+      const envelope = gain(context, 0)
+      const now = context.currentTime
+      tone.frequency.value = Math.random() > 0.5 ? 880 : 1320
+      envelope.gain.linearRampToValueAtTime(0.04, now + 0.01)
+      envelope.gain.exponentialRampToValueAtTime(0.0001, now + 0.12)
+      chain(tone, envelope, output)
+      tone.start(now)
+      tone.stop(now + 0.15)
+      timeout = setTimeout(blip, 2000 + Math.random() * 5000)
+    }
+    timeout = setTimeout(blip, 1500)
+
+    return { sources: [...murmurs, hum], cleanup: () => clearTimeout(timeout) }
+  },
+
+  // A sub, detuned saws and a fifth under a resonant lowpass, with a band of noise for the
+  // rush of the tunnel. Pitch, cutoff and rush all rise with the starfield speed.
+  warpEngine: (context, output) => {
+    const lowpass = filter(context, "lowpass", WARP_CUTOFF.idle, 6)
+    const voices = [
+      { ratio: 0.5, type: "sine" as const, level: 0.5 },
+      { ratio: 1, type: "sawtooth" as const, level: 0.25 },
+      { ratio: 1.006, type: "sawtooth" as const, level: 0.25 },
+      { ratio: 1.5, type: "triangle" as const, level: 0.12 },
+    ]
+    const oscillators = voices.map(({ ratio, type, level }) => {
+      const oscillator = context.createOscillator()
+      oscillator.type = type
+      oscillator.frequency.value = WARP_BASE_FREQUENCY * ratio
+      chain(oscillator, gain(context, level), lowpass)
+      return oscillator
+    })
+    chain(lowpass, gain(context, 0.5), output)
+
+    const rush = loopNoise(context, "white")
+    const rushBand = filter(context, "bandpass", 400, 1.5)
+    const rushLevel = gain(context, 0.01)
+    chain(rush, rushBand, rushLevel, output)
+
+    let current = -1
+    let dropped = false
+
+    const follow = (intensity: number) => {
+      const level = Math.min(Math.max(intensity, 0), 1)
+      // Frames repeat the same speed most of the time - only schedule real changes
+      if (dropped || Math.abs(level - current) < 0.005) return
+      current = level
+
+      const now = context.currentTime
+      const pitch = 1 + WARP_PITCH_RISE * level * level
+      oscillators.forEach((oscillator, index) => {
+        oscillator.frequency.setTargetAtTime(WARP_BASE_FREQUENCY * voices[index].ratio * pitch, now, WARP_RESPONSE)
+      })
+      // Cutoff opens exponentially so the brightening sounds even across the range
+      const cutoff = WARP_CUTOFF.idle * Math.pow(WARP_CUTOFF.full / WARP_CUTOFF.idle, level)
+      lowpass.frequency.setTargetAtTime(cutoff, now, WARP_RESPONSE)
+      rushBand.frequency.setTargetAtTime(400 + 3600 * level, now, WARP_RESPONSE)
+      rushLevel.gain.setTargetAtTime(0.01 + 0.12 * level, now, WARP_RESPONSE)
+    }
+
+    const dropOut = () => {
+      if (dropped) return
+      dropped = true
+
+      const now = context.currentTime
+      const end = now + WARP_DROP_SECONDS
+      const glide = (param: AudioParam, to: number) => {
+        param.cancelScheduledValues(now)
+        param.setValueAtTime(param.value, now)
+        param.exponentialRampToValueAtTime(to, end)
+      }
+      oscillators.forEach((oscillator, index) => {
+        glide(oscillator.frequency, WARP_BASE_FREQUENCY * voices[index].ratio * 0.25)
+      })
+      glide(lowpass.frequency, 60)
+      glide(rushBand.frequency, 120)
+      // The rush flares as the tunnel lets go, then dies with the sweep
+      rushLevel.gain.cancelScheduledValues(now)
+      rushLevel.gain.setValueAtTime(rushLevel.gain.value, now)
+      rushLevel.gain.linearRampToValueAtTime(0.2, now + 0.1)
+      rushLevel.gain.exponentialRampToValueAtTime(0.001, end)
+    }
+
+    return { sources: [...oscillators, rush], follow, dropOut }
+  },
+}
+
+// ----- Voices -----
+
+const createFileVoice = (context: AudioContext, url: string, output: GainNode): Omit<AmbientVoice, "track"> => {
+  const audio = new Audio(url)
+  audio.loop = true
+  audio.preload = "auto"
+  const source = context.createMediaElementSource(audio)
+  source.connect(output)
+
+  return {
+    output,
+    start: () => audio.play(),
+    stop: () => {
+      audio.pause()
+      audio.removeAttribute("src")
+      audio.load()
+      source.disconnect()
+      output.disconnect()
+    },
+  }
+}
+
+const createSynthVoice = (
+  context: AudioContext,
+  synth: SynthKind,
+  output: GainNode,
+): Omit<AmbientVoice, "track"> => {
+  let graph: SynthGraph | null = null
+  let stopped = false
+
+  return {
+    output,
+    // Built on start so a voice that never plays costs nothing
+    start: async () => {
+      if (graph || stopped) return
+      graph = SYNTHS[synth](context, output)
+      graph.sources.forEach((source) => source.start())
+    },
+    stop: () => {
+      stopped = true
+      graph?.sources.forEach((source) => source.stop())
+      graph?.cleanup?.()
+      graph = null
+      output.disconnect()
+    },
+    follow: (intensity) => graph?.follow?.(intensity),
+    dropOut: () => graph?.dropOut?.(),
+  }
+}
+
+export const createVoice = (context: AudioContext, track: AmbientTrack, volume: number): AmbientVoice => {
+  const output = gain(context, volume)
+  const voice =
+    track.source.type === "file"
+      ? createFileVoice(context, track.source.url, output)
+      : createSynthVoice(context, track.source.synth, output)
+  return { ...voice, track }
+}
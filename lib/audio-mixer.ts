@@ -0,0 +1,135 @@
+// ===== AUDIO MIXER =====
+// One layer per phase of a session - work, break and idle - each with its own
+// gain node under a master gain. Moving between phases crossfades the outgoing
+// layer's voice into the incoming one instead of cutting to silence. The caller
+// connects the master to the speakers, so nodes can be inserted after it.
+
+import { createVoice, type AmbientVoice } from "@/lib/ambient-voices"
+import { MIXER_LAYERS, type AmbientTrack, type MixerLayer } from "@/lib/sound-library"
+import type { TimerState } from "@/lib/timer-reducer"
+
+export interface AudioMixer {
+  master: GainNode
+  play: (layer: MixerLayer, track: AmbientTrack, volume: number) => Promise<void> // No-op if already playing
+  silence: () => void // Fade out whatever is playing
+  voice: () => AmbientVoice | null // The voice fading in or playing now
+  setTrackVolume: (trackId: string, volume: number) => void
+  setLayerVolume: (layer: MixerLayer, volume: number) => void
+  setMasterVolume: (volume: number) => void
+  close: () => void // Stops every voice at once
+}
+
+interface Channel {
+  layer: MixerLayer
+  voice: AmbientVoice
+  fade: GainNode // 0-1 crossfade position, between the voice and its layer
+}
+
+const VOLUME_GLIDE = 0.05 // Time constant for slider moves, short enough to feel immediate
+
+// A HOLD keeps the work layer going; the exit screen already leads into the break
+export const layerForState = (state: TimerState): MixerLayer => {
+  switch (state) {
+    case "working":
+    case "paused":
+      return "work"
+    case "workComplete":
+    case "break":
+    case "breakComplete":
+      return "break"
+    default:
+      return "idle"
+  }
+}
+
+export const createMixer = (context: AudioContext, fadeSeconds: number): AudioMixer => {
+  const master = context.createGain()
+  const layers = Object.fromEntries(
+    MIXER_LAYERS.map((layer) => {
+      const node = context.createGain()
+      node.connect(master)
+      return [layer, node]
+    }),
+  ) as Record<MixerLayer, GainNode>
+
+  let current: Channel | null = null
+  const fading = new Map<Channel, ReturnType<typeof setTimeout>>()
+
+  const rampTo = (param: AudioParam, value: number) => {
+    const now = context.currentTime
+    param.cancelScheduledValues(now)
+    param.setValueAtTime(param.value, now)
+    param.linearRampToValueAtTime(value, now + fadeSeconds)
+  }
+
+  const glideTo = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, context.currentTime, VOLUME_GLIDE)
+  }
+
+  const disconnect = (channel: Channel) => {
+    channel.voice.stop()
+    channel.fade.disconnect()
+  }
+
+  // Fade the current channel out and stop it once it's silent
+  const release = () => {
+    const outgoing = current
+    if (!outgoing) return
+    current = null
+    rampTo(outgoing.fade.gain, 0)
+    fading.set(
+      outgoing,
+      setTimeout(() => {
+        fading.delete(outgoing)
+        disconnect(outgoing)
+      }, fadeSeconds * 1000),
+    )
+  }
+
+  return {
+    master,
+
+    play: async (layer, track, volume) => {
+      if (current?.layer === layer && current.voice.track.id === track.id) return
+      release()
+
+      const fade = context.createGain()
+      fade.gain.value = 0
+      fade.connect(layers[layer])
+      const voice = createVoice(context, track, volume)
+      voice.output.connect(fade)
+      current = { layer, voice, fade }
+      rampTo(fade.gain, 1)
+
+      // Resume AudioContext if it's suspended (browser autoplay policy)
+      if (context.state === "suspended") {
+        await context.resume()
+      }
+      // The phase may have moved on while resuming - a released voice must stay silent
+      if (current?.voice !== voice) return
+      await voice.start()
+    },
+
+    silence: release,
+
+    voice: () => current?.voice ?? null,
+
+    setTrackVolume: (trackId, volume) => {
+      if (current?.voice.track.id === trackId) glideTo(current.voice.output.gain, volume)
+    },
+
+    setLayerVolume: (layer, volume) => glideTo(layers[layer].gain, volume),
+
+    setMasterVolume: (volume) => glideTo(master.gain, volume),
+
+    close: () => {
+      fading.forEach((timeout, channel) => {
+        clearTimeout(timeout)
+        disconnect(channel)
+      })
+      fading.clear()
+      if (current) disconnect(current)
+      current = null
+    },
+  }
+}
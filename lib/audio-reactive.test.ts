@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+
+import { bandLevel, rmsLevel } from "@/lib/audio-reactive"
+
+describe("rmsLevel", () => {
+  it("reads silence as zero", () => {
+    expect(rmsLevel(new Uint8Array(64).fill(128))).toBe(0)
+    expect(rmsLevel(new Uint8Array(0))).toBe(0)
+  })
+
+  it("reads a full-scale square wave as one", () => {
+    const square = Uint8Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? 0 : 255))
+    expect(rmsLevel(square)).toBeCloseTo(1, 1)
+  })
+
+  it("grows with amplitude", () => {
+    const quiet = Uint8Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? 118 : 138))
+    const loud = Uint8Array.from({ length: 64 }, (_, i) => (i % 2 === 0 ? 64 : 192))
+    expect(rmsLevel(loud)).toBeGreaterThan(rmsLevel(quiet))
+  })
+})
+
+describe("bandLevel", () => {
+  it("averages only the requested bins", () => {
+    const spectrum = new Uint8Array([255, 255, 0, 0])
+    expect(bandLevel(spectrum, 0, 2)).toBe(1)
+    expect(bandLevel(spectrum, 2, 4)).toBe(0)
+    expect(bandLevel(spectrum, 1, 3)).toBe(0.5)
+  })
+
+  it("reads an empty range as zero", () => {
+    expect(bandLevel(new Uint8Array(8), 4, 4)).toBe(0)
+  })
+})
@@ -0,0 +1,78 @@
+// ===== AUDIO-REACTIVE STARFIELD =====
+// Reads the ambient mix through an AnalyserNode and turns it into a couple of
+// small signals for the starfield: a loudness level that brightens twinkle and
+// trails, and a pulse on low-end swells that nudges the speed. Both are smoothed
+// and the effects capped, so the field breathes with the sound without pulling
+// attention from the work.
+
+export interface AudioReaction {
+  level: number // 0-1 smoothed loudness of the mix
+  pulse: number // 0-1 how far the low end has risen above its recent average
+}
+
+// Most the starfield can move at full reaction, as fractions of its normal value
+export const REACTION_LIMITS = {
+  twinkle: 0.3, // Star size and opacity
+  trail: 0.35, // Trail opacity
+  speed: 0.06, // Star speed
+}
+
+export const NO_REACTION: AudioReaction = { level: 0, pulse: 0 }
+
+const LEVEL_GAIN = 4 // Ambient tracks sit well below full scale
+const PULSE_GAIN = 6
+const ATTACK = 0.3 // Smoothing per frame while rising...
+const RELEASE = 0.04 // ...and while falling, so swells linger a little
+const AVERAGE_RATE = 0.02 // How quickly the low-end baseline follows
+const LOW_BINS = { from: 1, to: 5 } // Roughly 90-450 Hz at a 512-point FFT
+
+const smooth = (current: number, target: number) => current + (target - current) * (target > current ? ATTACK : RELEASE)
+
+// Root mean square of byte time-domain samples, where 128 is silence: 0-1
+export const rmsLevel = (samples: Uint8Array) => {
+  if (samples.length === 0) return 0
+  let sum = 0
+  for (const sample of samples) {
+    const value = (sample - 128) / 128
+    sum += value * value
+  }
+  return Math.sqrt(sum / samples.length)
+}
+
+// Mean magnitude of a range of byte frequency bins: 0-1
+export const bandLevel = (spectrum: Uint8Array, from: number, to: number) => {
+  const bins = spectrum.subarray(from, to)
+  if (bins.length === 0) return 0
+  let sum = 0
+  for (const bin of bins) sum += bin
+  return sum / bins.length / 255
+}
+
+export const createAnalyser = (context: BaseAudioContext) => {
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 512
+  analyser.smoothingTimeConstant = 0.8
+  return analyser
+}
+
+// Call once per frame - each call reads the analyser and advances the smoothing
+export const createReactionReader = (analyser: AnalyserNode) => {
+  const samples = new Uint8Array(analyser.fftSize)
+  const spectrum = new Uint8Array(analyser.frequencyBinCount)
+  let level = 0
+  let pulse = 0
+  let lowAverage = 0
+
+  return (): AudioReaction => {
+    analyser.getByteTimeDomainData(samples)
+    analyser.getByteFrequencyData(spectrum)
+
+    level = smooth(level, Math.min(rmsLevel(samples) * LEVEL_GAIN, 1))
+
+    const low = bandLevel(spectrum, LOW_BINS.from, LOW_BINS.to)
+    lowAverage += (low - lowAverage) * AVERAGE_RATE
+    pulse = smooth(pulse, Math.min(Math.max(low - lowAverage, 0) * PULSE_GAIN, 1))
+
+    return { level, pulse }
+  }
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  parseImport,
+  parseSessionRecord,
+  readPreferences,
+  sessionsToCsv,
+  writePreferences,
+} from "@/lib/data-transfer"
+import type { SessionRecord } from "@/lib/session-history"
+
+const SESSION: SessionRecord = {
+  id: "a",
+  startedAt: Date.UTC(2024, 0, 15, 9, 0),
+  endedAt: Date.UTC(2024, 0, 15, 9, 30),
+  plannedDuration: 25 * 60_000,
+  focusedTime: 25 * 60_000,
+  breakTime: 5 * 60_000,
+  pausedTime: 0,
+  surfaceCount: 1,
+  outcome: "completed",
+}
+
+const bundle = (sessions: unknown[], preferences: Record<string, unknown> = {}) =>
+  JSON.stringify({ app: "warpomodoro", version: 1, exportedAt: "", sessions, preferences })
+
+// A Map-backed stand-in for the browser's localStorage
+const createStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+  }
+}
+
+describe("parseSessionRecord", () => {
+  it("accepts a stored record as is", () => {
+    expect(parseSessionRecord({ ...SESSION })).toEqual(SESSION)
+  })
+
+  it("reads CSV-style strings and ISO timestamps", () => {
+    const parsed = parseSessionRecord({
+      ...SESSION,
+      startedAt: new Date(SESSION.startedAt).toISOString(),
+      endedAt: String(SESSION.endedAt),
+      focusedTime: " 1500000 ",
+      surfaceCount: "1",
+      intention: "  Refactor auth ",
+      taskId: "",
+    })
+    expect(parsed).toMatchObject({ startedAt: SESSION.startedAt, endedAt: SESSION.endedAt, focusedTime: 1_500_000 })
+    expect(parsed).toMatchObject({ intention: "Refactor auth" })
+    expect(parsed).not.toHaveProperty("taskId")
+  })
+
+  it("derives an id from the start time when there is none", () => {
+    expect(parseSessionRecord({ ...SESSION, id: "" })).toMatchObject({ id: `import-${SESSION.startedAt}` })
+  })
+
+  it("explains what is wrong with a malformed record", () => {
+    expect(parseSessionRecord({ ...SESSION, startedAt: "yesterday" })).toBe("invalid start time")
+    expect(parseSessionRecord({ ...SESSION, endedAt: SESSION.startedAt - 1 })).toBe("invalid end time")
+    expect(parseSessionRecord({ ...SESSION, focusedTime: -5 })).toBe("invalid focused time")
+    expect(parseSessionRecord({ ...SESSION, surfaceCount: 1.5 })).toBe("invalid SURFACE count")
+    expect(parseSessionRecord({ ...SESSION, outcome: "abandoned" })).toBe('unknown outcome "abandoned"')
+  })
+})
+
+describe("CSV", () => {
+  it("quotes commas, quotes and newlines", () => {
+    const csv = sessionsToCsv([{ ...SESSION, intention: 'Write "spec", then\nship' }])
+    expect(csv.split("\n")[1]).toContain('"Write ""spec"", then')
+  })
+
+  it("round-trips sessions through export and import", () => {
+    const sessions = [
+      { ...SESSION, intention: 'Write "spec", then\nship', projectId: "p1" },
+      { ...SESSION, id: "b", startedAt: SESSION.startedAt + 3_600_000, endedAt: SESSION.endedAt + 3_600_000 },
+    ]
+    const result = parseImport(sessionsToCsv(sessions), "export.csv", [])
+    expect(result.errors).toEqual([])
+    expect(result.sessions).toEqual(sessions)
+  })
+
+  it("numbers bad rows as they appear in the file", () => {
+    const csv = sessionsToCsv([SESSION]).replace("completed", "abandoned")
+    expect(parseImport(csv, "export.csv", []).errors).toEqual(['Row 2: unknown outcome "abandoned"'])
+  })
+
+  it("rejects empty files and missing columns", () => {
+    expect(parseImport("", "export.csv", []).errors).toEqual(["CSV file is empty"])
+    expect(parseImport("id,started_at\n1,2", "export.csv", []).errors[0]).toMatch(/^CSV header is missing: ended_at/)
+  })
+})
+
+describe("parseImport", () => {
+  it("rejects files that aren't WARPOMODORO JSON exports", () => {
+    expect(parseImport("{ nope", "export.json", []).errors).toEqual(["File is not valid JSON"])
+    expect(parseImport('{"sessions": []}', "export.json", []).errors).toEqual(["Not a WARPOMODORO export file"])
+  })
+
+  it("skips sessions already stored, by id or by start time", () => {
+    const sameId = { ...SESSION, startedAt: SESSION.startedAt + 1, endedAt: SESSION.endedAt + 1 }
+    const sameStart = { ...SESSION, id: "recreated" }
+    const fresh = { ...SESSION, id: "c", startedAt: SESSION.endedAt, endedAt: SESSION.endedAt + 60_000 }
+    const result = parseImport(bundle([sameId, sameStart, fresh]), "export.json", [SESSION])
+    expect(result.sessions).toEqual([fresh])
+    expect(result.duplicates).toBe(2)
+  })
+
+  it("skips duplicates within the file itself", () => {
+    const result = parseImport(bundle([SESSION, SESSION]), "export.json", [])
+    expect(result.sessions).toEqual([SESSION])
+    expect(result.duplicates).toBe(1)
+  })
+
+  it("reports rows that aren't sessions and keeps the rest", () => {
+    const result = parseImport(bundle([null, { ...SESSION, outcome: "?" }, SESSION]), "export.json", [])
+    expect(result.sessions).toEqual([SESSION])
+    expect(result.errors).toEqual(["Row 1: not a session object", 'Row 2: unknown outcome "?"'])
+  })
+
+  it("keeps WARPOMODORO preferences and drops the running session", () => {
+    const result = parseImport(
+      bundle([], {
+        "warpomodoro-theme": "SILT",
+        "warpomodoro-active-session": "{}",
+        "other-app": "x",
+        "warpomodoro-sessions": 4,
+      }),
+      "export.json",
+      [],
+    )
+    expect(result.preferences).toEqual({ "warpomodoro-theme": "SILT" })
+    expect(result.errors).toEqual(['Preference "other-app" skipped', 'Preference "warpomodoro-sessions" skipped'])
+  })
+})
+
+describe("preferences", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", createStorage())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reads only WARPOMODORO keys, without the running session", () => {
+    localStorage.setItem("warpomodoro-theme", "SILT")
+    localStorage.setItem("warpomodoro-active-session", "{}")
+    localStorage.setItem("other-app", "x")
+    expect(readPreferences()).toEqual({ "warpomodoro-theme": "SILT" })
+  })
+
+  it("merges lists by id, keeping what is already stored", () => {
+    localStorage.setItem("warpomodoro-tasks", JSON.stringify([{ id: "1", title: "KEEP" }]))
+    writePreferences({
+      "warpomodoro-tasks": JSON.stringify([
+        { id: "1", title: "OVERWRITE" },
+        { id: "2", title: "ADD" },
+      ]),
+    })
+    expect(JSON.parse(localStorage.getItem("warpomodoro-tasks") ?? "")).toEqual([
+      { id: "1", title: "KEEP" },
+      { id: "2", title: "ADD" },
+    ])
+  })
+
+  it("keeps the stored list when the imported one is malformed", () => {
+    localStorage.setItem("warpomodoro-projects", "[]")
+    writePreferences({ "warpomodoro-projects": "not json" })
+    expect(localStorage.getItem("warpomodoro-projects")).toBe("[]")
+  })
+
+  it("keeps the larger counter", () => {
+    localStorage.setItem("warpomodoro-sessions", "12")
+    localStorage.setItem("warpomodoro-completed-sessions", "3")
+    writePreferences({ "warpomodoro-sessions": "7", "warpomodoro-completed-sessions": "9" })
+    expect(localStorage.getItem("warpomodoro-sessions")).toBe("12")
+    expect(localStorage.getItem("warpomodoro-completed-sessions")).toBe("9")
+  })
+
+  it("overwrites plain settings but never the running session or other apps' keys", () => {
+    localStorage.setItem("warpomodoro-theme", "CORE")
+    writePreferences({
+      "warpomodoro-theme": "SILT",
+      "warpomodoro-active-session": "{}",
+      "other-app": "x",
+    })
+    expect(localStorage.getItem("warpomodoro-theme")).toBe("SILT")
+    expect(localStorage.getItem("warpomodoro-active-session")).toBeNull()
+    expect(localStorage.getItem("other-app")).toBeNull()
+  })
+})
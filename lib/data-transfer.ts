@@ -0,0 +1,330 @@
+// ===== EXPORT / IMPORT =====
+// Session history and preferences as portable files. JSON carries everything;
+// CSV carries the session history only, one row per session. Imports merge into
+// what is already stored and skip sessions that are already there.
+
+import { ACTIVE_SESSION_KEY } from "@/lib/active-session"
+import type { SessionOutcome, SessionRecord } from "@/lib/session-history"
+
+export type ExportFormat = "json" | "csv"
+
+export interface ExportBundle {
+  app: "warpomodoro"
+  version: number
+  exportedAt: string
+  sessions: SessionRecord[]
+  preferences: Record<string, string> // Raw localStorage values under the warpomodoro- prefix
+}
+
+export interface ImportResult {
+  sessions: SessionRecord[] // Valid sessions not already stored
+  preferences: Record<string, string>
+  duplicates: number
+  errors: string[] // One message per rejected row or field
+}
+
+const EXPORT_VERSION = 1
+const PREFERENCE_PREFIX = "warpomodoro-"
+
+const OUTCOMES: SessionOutcome[] = ["completed", "disengaged", "cruise"]
+
+const REVOKE_DELAY = 1000 // Revoking straight after the click can cancel the download in some browsers
+
+// List-valued preferences are merged by id; counters keep the larger value
+const MERGED_LIST_KEYS = ["warpomodoro-tasks", "warpomodoro-projects", "warpomodoro-themes"]
+const COUNTER_KEYS = ["warpomodoro-sessions", "warpomodoro-completed-sessions"]
+// Runtime-only state that shouldn't travel between browsers, in either direction
+const EXCLUDED_KEYS = [ACTIVE_SESSION_KEY]
+
+const CSV_COLUMNS = [
+  "id",
+  "started_at",
+  "ended_at",
+  "planned_ms",
+  "focused_ms",
+  "break_ms",
+  "surface_count",
+  "outcome",
+  "intention",
+  "task_id",
+  "project_id",
+  "paused_ms",
+] as const
+
+// ----- Preferences -----
+
+export const readPreferences = (): Record<string, string> => {
+  const preferences: Record<string, string> = {}
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(PREFERENCE_PREFIX) && !EXCLUDED_KEYS.includes(key)) {
+      preferences[key] = localStorage.getItem(key) ?? ""
+    }
+  }
+  return preferences
+}
+
+const mergeList = (current: string | null, incoming: string) => {
+  try {
+    const existing: { id: string }[] = current ? JSON.parse(current) : []
+    const additions: { id: string }[] = JSON.parse(incoming)
+    if (!Array.isArray(existing) || !Array.isArray(additions)) return incoming
+    const ids = new Set(existing.map((item) => item.id))
+    return JSON.stringify([...existing, ...additions.filter((item) => item && !ids.has(item.id))])
+  } catch {
+    return current ?? incoming
+  }
+}
+
+export const writePreferences = (preferences: Record<string, string>) => {
+  Object.entries(preferences).forEach(([key, value]) => {
+    if (!key.startsWith(PREFERENCE_PREFIX) || EXCLUDED_KEYS.includes(key)) return
+    const current = localStorage.getItem(key)
+
+    if (MERGED_LIST_KEYS.includes(key)) {
+      localStorage.setItem(key, mergeList(current, value))
+    } else if (COUNTER_KEYS.includes(key)) {
+      const merged = Math.max(Number.parseInt(current ?? "0", 10) || 0, Number.parseInt(value, 10) || 0)
+      localStorage.setItem(key, merged.toString())
+    } else {
+      localStorage.setItem(key, value)
+    }
+  })
+}
+
+// ----- Validation -----
+
+const toTimestamp = (value: unknown) => {
+  if (typeof value === "number") return value
+  if (typeof value === "string" && value.trim()) {
+    return /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value)
+  }
+  return Number.NaN
+}
+
+const toCount = (value: unknown) => (typeof value === "number" ? value : Number(String(value ?? "").trim() || Number.NaN))
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined)
+
+// Build a SessionRecord from loosely typed input, or explain why it can't be
+export const parseSessionRecord = (raw: Record<string, unknown>): SessionRecord | string => {
+  const startedAt = toTimestamp(raw.startedAt)
+  const endedAt = toTimestamp(raw.endedAt)
+  const plannedDuration = toCount(raw.plannedDuration)
+  const focusedTime = toCount(raw.focusedTime)
+  const breakTime = toCount(raw.breakTime ?? 0)
+  const pausedTime = toCount(raw.pausedTime || 0)
+  const surfaceCount = toCount(raw.surfaceCount ?? 0)
+  const outcome = raw.outcome as SessionOutcome
+
+  if (!Number.isFinite(startedAt)) return "invalid start time"
+  if (!Number.isFinite(endedAt) || endedAt < startedAt) return "invalid end time"
+  if (!Number.isFinite(plannedDuration) || plannedDuration < 0) return "invalid planned duration"
+  if (!Number.isFinite(focusedTime) || focusedTime < 0) return "invalid focused time"
+  if (!Number.isFinite(breakTime) || breakTime < 0) return "invalid break time"
+  if (!Number.isFinite(pausedTime) || pausedTime < 0) return "invalid paused time"
+  if (!Number.isInteger(surfaceCount) || surfaceCount < 0) return "invalid SURFACE count"
+  if (!OUTCOMES.includes(outcome)) return `unknown outcome "${String(raw.outcome)}"`
+
+  const intention = optionalString(raw.intention)
+  const taskId = optionalString(raw.taskId)
+  const projectId = optionalString(raw.projectId)
+
+  return {
+    // Rows without an id get one derived from their start time so re-imports still dedupe
+    id: optionalString(raw.id) ?? `import-${startedAt}`,
+    startedAt,
+    endedAt,
+    plannedDuration,
+    focusedTime,
+    breakTime,
+    pausedTime,
+    surfaceCount,
+    outcome,
+    ...(intention && { intention }),
+    ...(taskId && { taskId }),
+    ...(projectId && { projectId }),
+  }
+}
+
+// ----- CSV -----
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const sessionsToCsv = (sessions: SessionRecord[]) => {
+  const rows = sessions.map((session) =>
+    [
+      session.id,
+      new Date(session.startedAt).toISOString(),
+      new Date(session.endedAt).toISOString(),
+      session.plannedDuration,
+      session.focusedTime,
+      session.breakTime,
+      session.surfaceCount,
+      session.outcome,
+      session.intention,
+      session.taskId,
+      session.projectId,
+      session.pausedTime ?? 0,
+    ]
+      .map(escapeCsv)
+      .join(","),
+  )
+  return [CSV_COLUMNS.join(","), ...rows].join("\n")
+}
+
+// Split CSV text into rows of fields, honouring quoted commas, quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()))
+}
+
+const csvToRawSessions = (text: string): { rows: Record<string, unknown>[]; errors: string[] } => {
+  const [header, ...lines] = parseCsv(text)
+  if (!header) return { rows: [], errors: ["CSV file is empty"] }
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const missing = CSV_COLUMNS.slice(1, 8).filter((column) => !columns.includes(column))
+  if (missing.length) return { rows: [], errors: [`CSV header is missing: ${missing.join(", ")}`] }
+
+  const value = (fields: string[], column: (typeof CSV_COLUMNS)[number]) => fields[columns.indexOf(column)]
+  const rows = lines.map((fields) => ({
+    id: value(fields, "id"),
+    startedAt: value(fields, "started_at"),
+    endedAt: value(fields, "ended_at"),
+    plannedDuration: value(fields, "planned_ms"),
+    focusedTime: value(fields, "focused_ms"),
+    breakTime: value(fields, "break_ms"),
+    surfaceCount: value(fields, "surface_count"),
+    outcome: value(fields, "outcome"),
+    intention: value(fields, "intention"),
+    taskId: value(fields, "task_id"),
+    projectId: value(fields, "project_id"),
+    pausedTime: value(fields, "paused_ms"),
+  }))
+  return { rows, errors: [] }
+}
+
+// ----- Export / import -----
+
+export const buildExport = (sessions: SessionRecord[], format: ExportFormat): { contents: string; mimeType: string } =>
+  format === "csv"
+    ? { contents: sessionsToCsv(sessions), mimeType: "text/csv" }
+    : {
+        contents: JSON.stringify(
+          {
+            app: "warpomodoro",
+            version: EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            sessions,
+            preferences: readPreferences(),
+          } satisfies ExportBundle,
+          null,
+          2,
+        ),
+        mimeType: "application/json",
+      }
+
+// Validate an export file against the sessions already stored. Nothing is written here.
+export const parseImport = (text: string, fileName: string, existing: SessionRecord[]): ImportResult => {
+  let rawSessions: Record<string, unknown>[] = []
+  let preferences: Record<string, string> = {}
+  const errors: string[] = []
+  // Row numbers in messages match the file: CSV rows start after the header
+  let firstRow = 1
+
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    const parsed = csvToRawSessions(text)
+    rawSessions = parsed.rows
+    errors.push(...parsed.errors)
+    firstRow = 2
+  } else {
+    try {
+      const bundle = JSON.parse(text) as Partial<ExportBundle>
+      if (bundle?.app !== "warpomodoro" || !Array.isArray(bundle.sessions)) {
+        return { sessions: [], preferences: {}, duplicates: 0, errors: ["Not a WARPOMODORO export file"] }
+      }
+      rawSessions = bundle.sessions as unknown as Record<string, unknown>[]
+      Object.entries(bundle.preferences ?? {}).forEach(([key, value]) => {
+        if (EXCLUDED_KEYS.includes(key)) return // Older exports carried the running session
+        if (key.startsWith(PREFERENCE_PREFIX) && typeof value === "string") {
+          preferences[key] = value
+        } else {
+          errors.push(`Preference "${key}" skipped`)
+        }
+      })
+    } catch {
+      return { sessions: [], preferences: {}, duplicates: 0, errors: ["File is not valid JSON"] }
+    }
+  }
+
+  const seenIds = new Set(existing.map((session) => session.id))
+  const seenStarts = new Set(existing.map((session) => session.startedAt))
+  const sessions: SessionRecord[] = []
+  let duplicates = 0
+
+  rawSessions.forEach((raw, index) => {
+    const parsed = raw && typeof raw === "object" ? parseSessionRecord(raw) : "not a session object"
+    if (typeof parsed === "string") {
+      errors.push(`Row ${index + firstRow}: ${parsed}`)
+      return
+    }
+    // The same session can carry a different id if it was re-created, so the start time also counts
+    if (seenIds.has(parsed.id) || seenStarts.has(parsed.startedAt)) {
+      duplicates += 1
+      return
+    }
+    seenIds.add(parsed.id)
+    seenStarts.add(parsed.startedAt)
+    sessions.push(parsed)
+  })
+
+  return { sessions, preferences, duplicates, errors }
+}
+
+export const downloadFile = (contents: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY)
+}
@@ -0,0 +1,46 @@
+// ===== DATABASE =====
+// The app's IndexedDB database, shared by the session history and the user's own
+// ambient sound files. Each gets an object store; bump DB_VERSION to add another.
+
+const DB_NAME = "warpomodoro"
+const DB_VERSION = 2
+
+export const SESSION_STORE = "sessions"
+export const SOUND_STORE = "sounds"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Wrap an IDBRequest in a promise
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      // Stores are only ever added, so each upgrade creates whatever is missing
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+          store.createIndex("startedAt", "startedAt")
+        }
+        if (!db.objectStoreNames.contains(SOUND_STORE)) {
+          db.createObjectStore(SOUND_STORE, { keyPath: "id" })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        // Allow a later call to retry instead of caching the failure
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
@@ -0,0 +1,62 @@
+// ===== FAVICON =====
+// A progress ring drawn on a canvas and swapped in as the tab icon, so a running
+// session can be followed from other tabs. Removing it falls back to the
+// site's own icon.
+
+const FAVICON_ID = "warpomodoro-favicon"
+const SIZE = 64
+const LINE_WIDTH = 10
+
+let canvas: HTMLCanvasElement | null = null
+
+// Draw the ring for progress between 0 and 1 and return it as a data URL
+export const drawProgressFavicon = (progress: number, colors: { background: string; stars: string }) => {
+  canvas ??= document.createElement("canvas")
+  canvas.width = SIZE
+  canvas.height = SIZE
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+
+  const center = SIZE / 2
+  const radius = center - LINE_WIDTH / 2
+
+  ctx.clearRect(0, 0, SIZE, SIZE)
+  ctx.beginPath()
+  ctx.arc(center, center, center, 0, Math.PI * 2)
+  ctx.fillStyle = colors.background
+  ctx.fill()
+
+  // Faint full track under the progress arc
+  ctx.lineWidth = LINE_WIDTH
+  ctx.globalAlpha = 0.25
+  ctx.strokeStyle = colors.stars
+  ctx.beginPath()
+  ctx.arc(center, center, radius, 0, Math.PI * 2)
+  ctx.stroke()
+
+  // Progress runs clockwise from twelve o'clock
+  ctx.globalAlpha = 1
+  ctx.beginPath()
+  ctx.arc(center, center, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.min(Math.max(progress, 0), 1))
+  ctx.stroke()
+
+  return canvas.toDataURL("image/png")
+}
+
+// Point the tab icon at href, or drop the override when href is null
+export const setFavicon = (href: string | null) => {
+  let link = document.getElementById(FAVICON_ID) as HTMLLinkElement | null
+  if (!href) {
+    link?.remove()
+    return
+  }
+  if (!link) {
+    link = document.createElement("link")
+    link.id = FAVICON_ID
+    link.rel = "icon"
+    link.type = "image/png"
+    // The last icon in the head wins, so this one overrides any static icon
+    document.head.appendChild(link)
+  }
+  link.href = href
+}
@@ -0,0 +1,134 @@
+// ===== FIELD BACKGROUND =====
+// Paints a FIELD's backdrop under the starfield: a solid colour, or a gradient
+// with an optional procedural nebula. Layered backdrops are rendered once per
+// theme and canvas size into an offscreen canvas and copied on every frame.
+
+import type { FieldGradient, FieldTheme, NebulaLayer } from "@/lib/themes"
+
+// The nebula is soft, so it's computed small and scaled up
+const NEBULA_RESOLUTION = 160
+const NEBULA_OCTAVES = 5
+
+let cache: { theme: FieldTheme; width: number; height: number; canvas: HTMLCanvasElement } | null = null
+
+// ----- Noise -----
+
+// Deterministic pseudo-random value in [0, 1) for a lattice point
+const hash = (x: number, y: number, seed: number) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2246822519)
+  h = Math.imul(h ^ (h >>> 13), 1274126177)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t)
+
+const valueNoise = (x: number, y: number, seed: number) => {
+  const x0 = Math.floor(x)
+  const y0 = Math.floor(y)
+  const tx = smoothstep(x - x0)
+  const ty = smoothstep(y - y0)
+  const top = hash(x0, y0, seed) + (hash(x0 + 1, y0, seed) - hash(x0, y0, seed)) * tx
+  const bottom = hash(x0, y0 + 1, seed) + (hash(x0 + 1, y0 + 1, seed) - hash(x0, y0 + 1, seed)) * tx
+  return top + (bottom - top) * ty
+}
+
+// Fractal noise - octaves of value noise at doubling frequency, normalised to [0, 1)
+const fractalNoise = (x: number, y: number, seed: number) => {
+  let total = 0
+  let amplitude = 1
+  let frequency = 1
+  let range = 0
+  for (let octave = 0; octave < NEBULA_OCTAVES; octave++) {
+    total += valueNoise(x * frequency, y * frequency, seed + octave * 101) * amplitude
+    range += amplitude
+    amplitude /= 2
+    frequency *= 2
+  }
+  return total / range
+}
+
+const parseHex = (hex: string) => [1, 3, 5].map((start) => Number.parseInt(hex.slice(start, start + 2), 16))
+
+// ----- Layers -----
+
+const paintGradient = (ctx: CanvasRenderingContext2D, gradient: FieldGradient, width: number, height: number) => {
+  let fill: CanvasGradient
+  if (gradient.type === "radial") {
+    fill = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2)
+  } else {
+    // Run the gradient through the centre, long enough to reach the corners at any angle
+    const angle = ((gradient.angle ?? 180) * Math.PI) / 180
+    const dx = Math.sin(angle)
+    const dy = -Math.cos(angle)
+    const half = Math.abs((width / 2) * dx) + Math.abs((height / 2) * dy)
+    fill = ctx.createLinearGradient(
+      width / 2 - dx * half,
+      height / 2 - dy * half,
+      width / 2 + dx * half,
+      height / 2 + dy * half,
+    )
+  }
+  gradient.colors.forEach((color, index) => fill.addColorStop(index / (gradient.colors.length - 1), color))
+  ctx.fillStyle = fill
+  ctx.fillRect(0, 0, width, height)
+}
+
+const paintNebula = (ctx: CanvasRenderingContext2D, nebula: NebulaLayer, width: number, height: number) => {
+  const cloudWidth = NEBULA_RESOLUTION
+  const cloudHeight = Math.max(Math.round((NEBULA_RESOLUTION * height) / width), 1)
+  const clouds = document.createElement("canvas")
+  clouds.width = cloudWidth
+  clouds.height = cloudHeight
+  const cloudCtx = clouds.getContext("2d")
+  if (!cloudCtx) return
+
+  const image = cloudCtx.createImageData(cloudWidth, cloudHeight)
+  const [from, to] = nebula.colors.map(parseHex)
+  const scale = 4 / cloudWidth // About four noise cells across the screen
+
+  for (let y = 0; y < cloudHeight; y++) {
+    for (let x = 0; x < cloudWidth; x++) {
+      // Density thresholded so the clouds have clear gaps between them
+      const density = fractalNoise(x * scale, y * scale, nebula.seed)
+      const alpha = smoothstep(Math.min(Math.max((density - 0.45) / 0.35, 0), 1)) * nebula.intensity
+      const mix = fractalNoise(x * scale + 17.3, y * scale + 5.1, nebula.seed + 7)
+      const offset = (y * cloudWidth + x) * 4
+      for (let channel = 0; channel < 3; channel++) {
+        image.data[offset + channel] = from[channel] + (to[channel] - from[channel]) * mix
+      }
+      image.data[offset + 3] = alpha * 255
+    }
+  }
+
+  cloudCtx.putImageData(image, 0, 0)
+  ctx.imageSmoothingEnabled = true
+  ctx.drawImage(clouds, 0, 0, width, height)
+}
+
+const renderLayers = (theme: FieldTheme, width: number, height: number) => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return canvas
+
+  ctx.fillStyle = theme.background
+  ctx.fillRect(0, 0, width, height)
+  if (theme.gradient) paintGradient(ctx, theme.gradient, width, height)
+  if (theme.nebula) paintNebula(ctx, theme.nebula, width, height)
+  return canvas
+}
+
+// Clear the frame to the theme's backdrop
+export const drawFieldBackground = (ctx: CanvasRenderingContext2D, theme: FieldTheme, width: number, height: number) => {
+  if (!theme.gradient && !theme.nebula) {
+    ctx.fillStyle = theme.background
+    ctx.fillRect(0, 0, width, height)
+    return
+  }
+
+  if (!cache || cache.theme !== theme || cache.width !== width || cache.height !== height) {
+    cache = { theme, width, height, canvas: renderLayers(theme, width, height) }
+  }
+  ctx.drawImage(cache.canvas, 0, 0)
+}
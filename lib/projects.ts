@@ -0,0 +1,44 @@
+// ===== PROJECTS =====
+// Reusable projects with a colour. Each session can be assigned one project so
+// focused time can be totalled per project.
+
+import { createId } from "@/lib/utils"
+
+export interface Project {
+  id: string
+  name: string
+  color: string
+}
+
+const STORAGE_KEY = "warpomodoro-projects"
+
+export const MAX_PROJECT_NAME_LENGTH = 32
+
+// Colours suggested for new projects, picked in turn
+export const PROJECT_COLORS = ["#ff4d4d", "#ffb347", "#f5f56e", "#99ff99", "#87ceeb", "#c792ea", "#f5f5f5", "#c2b9a4"]
+
+export const loadProjects = (): Project[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : []
+    return Array.isArray(parsed)
+      ? parsed.filter((project) => typeof project?.id === "string" && typeof project?.name === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+export const saveProjects = (projects: Project[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(projects))
+}
+
+export const createProject = (projects: Project[], name: string, color: string): { projects: Project[]; project: Project } => {
+  const project: Project = { id: createId(), name: name.trim().slice(0, MAX_PROJECT_NAME_LENGTH), color }
+  return { projects: [...projects, project], project }
+}
+
+export const removeProject = (projects: Project[], id: string): Project[] =>
+  projects.filter((project) => project.id !== id)
+
+export const nextProjectColor = (projects: Project[]) => PROJECT_COLORS[projects.length % PROJECT_COLORS.length]
@@ -0,0 +1,48 @@
+// ===== SESSION HISTORY =====
+// Every work session is stored as a structured record in IndexedDB so months of
+// history fit comfortably. localStorage keeps only the quick counters.
+
+import { openDatabase, promisify, SESSION_STORE } from "@/lib/database"
+
+export type SessionOutcome = "completed" | "disengaged" | "cruise"
+
+export interface SessionRecord {
+  id: string
+  startedAt: number // Epoch ms when LAUNCH was pressed
+  endedAt: number // Epoch ms when the session completed or was left
+  plannedDuration: number // Work duration in ms at launch, 0 for cruise runs
+  focusedTime: number // Time actually spent in the tunnel, excluding breaks
+  breakTime: number // Total time spent on SURFACE breaks
+  pausedTime?: number // Total time the countdown was held; absent on records logged before HOLD existed
+  surfaceCount: number // Number of SURFACE breaks taken
+  outcome: SessionOutcome
+  intention?: string // What the tunnel was for, typed or picked before LAUNCH
+  taskId?: string // Task list entry the intention belongs to
+  projectId?: string // Project the session was billed to
+}
+
+export const addSessionRecord = async (record: SessionRecord) => {
+  const db = await openDatabase()
+  const store = db.transaction(SESSION_STORE, "readwrite").objectStore(SESSION_STORE)
+  await promisify(store.put(record))
+}
+
+// Write many records in one transaction, replacing any with the same id
+export const addSessionRecords = async (records: SessionRecord[]) => {
+  const db = await openDatabase()
+  const transaction = db.transaction(SESSION_STORE, "readwrite")
+  const store = transaction.objectStore(SESSION_STORE)
+  records.forEach((record) => store.put(record))
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// All records, oldest first
+export const getSessionRecords = async (): Promise<SessionRecord[]> => {
+  const db = await openDatabase()
+  const store = db.transaction(SESSION_STORE, "readonly").objectStore(SESSION_STORE)
+  return promisify(store.index("startedAt").getAll() as IDBRequest<SessionRecord[]>)
+}
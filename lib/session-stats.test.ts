@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+
+import type { SessionRecord } from "@/lib/session-history"
+import { dailyProgress, dayKey, focusedMinutesByPeriod, summarizeOutcomes } from "@/lib/session-stats"
+
+const MINUTE = 60 * 1000
+
+// Local times throughout, so day and week boundaries hold in any time zone
+const at = (month: number, day: number, hours: number, minutes = 0) =>
+  new Date(2024, month - 1, day, hours, minutes).getTime()
+
+const session = (startedAt: number, overrides: Partial<SessionRecord> = {}): SessionRecord => ({
+  id: `s-${startedAt}`,
+  startedAt,
+  endedAt: startedAt + 25 * MINUTE,
+  plannedDuration: 25 * MINUTE,
+  focusedTime: 25 * MINUTE,
+  breakTime: 0,
+  surfaceCount: 0,
+  outcome: "completed",
+  ...overrides,
+})
+
+describe("dayKey", () => {
+  it("uses the local calendar day", () => {
+    expect(dayKey(at(4, 7, 23, 59))).toBe("2024-04-07")
+    expect(dayKey(at(4, 8, 0, 0))).toBe("2024-04-08")
+  })
+
+  it("counts the hours before the rollover towards the previous day", () => {
+    expect(dayKey(at(4, 8, 3, 59), 4)).toBe("2024-04-07")
+    expect(dayKey(at(4, 8, 4, 0), 4)).toBe("2024-04-08")
+  })
+})
+
+describe("dailyProgress", () => {
+  it("has nothing to count in an empty history", () => {
+    expect(dailyProgress([], 3, 0, at(4, 8, 12))).toEqual({ today: 0, streak: 0 })
+  })
+
+  it("counts a tunnel that crosses midnight on the day it was launched", () => {
+    const lateNight = session(at(4, 7, 23, 50))
+    expect(dailyProgress([lateNight], 1, 0, at(4, 8, 0, 20))).toEqual({ today: 0, streak: 1 })
+    expect(dailyProgress([lateNight], 1, 4, at(4, 8, 0, 20))).toEqual({ today: 1, streak: 1 })
+  })
+
+  it("keeps a met goal's streak after the day rolls over, until the next day is over", () => {
+    const records = [session(at(4, 7, 9)), session(at(4, 7, 14))]
+
+    expect(dailyProgress(records, 2, 0, at(4, 7, 22))).toEqual({ today: 2, streak: 1 })
+    // A fresh day with nothing done yet doesn't break the streak...
+    expect(dailyProgress(records, 2, 0, at(4, 8, 1))).toEqual({ today: 0, streak: 1 })
+    // ...unless the rollover hour hasn't been reached, in which case it is still the 7th
+    expect(dailyProgress(records, 2, 4, at(4, 8, 1))).toEqual({ today: 2, streak: 1 })
+    // A whole missed day does
+    expect(dailyProgress(records, 2, 0, at(4, 9, 9))).toEqual({ today: 0, streak: 0 })
+  })
+
+  it("only counts completed tunnels", () => {
+    const records = [session(at(4, 7, 9)), session(at(4, 7, 10), { outcome: "disengaged" })]
+    expect(dailyProgress(records, 2, 0, at(4, 7, 12))).toEqual({ today: 1, streak: 0 })
+  })
+
+  it("runs the streak back through consecutive days", () => {
+    const records = [session(at(4, 5, 9)), session(at(4, 6, 9)), session(at(4, 7, 9)), session(at(4, 3, 9))]
+    expect(dailyProgress(records, 1, 0, at(4, 7, 12))).toEqual({ today: 1, streak: 3 })
+  })
+})
+
+describe("focusedMinutesByPeriod", () => {
+  it("returns empty buckets for an empty history", () => {
+    const days = focusedMinutesByPeriod([], "day", at(4, 8, 12))
+    expect(days).toHaveLength(14)
+    expect(days.every((bucket) => bucket.minutes === 0)).toBe(true)
+    expect(days[13].start).toBe(at(4, 8, 0))
+  })
+
+  it("buckets a tunnel crossing midnight on its launch day", () => {
+    const days = focusedMinutesByPeriod([session(at(4, 7, 23, 50))], "day", at(4, 8, 12))
+    expect(days[12]).toMatchObject({ start: at(4, 7, 0), minutes: 25 })
+    expect(days[13].minutes).toBe(0)
+  })
+
+  it("starts weeks on Monday", () => {
+    // Sunday 7 April late evening, then Monday 8 April just after midnight
+    const records = [session(at(4, 7, 23)), session(at(4, 8, 0, 30), { focusedTime: 10 * MINUTE })]
+    const weeks = focusedMinutesByPeriod(records, "week", at(4, 10, 12))
+
+    expect(weeks).toHaveLength(12)
+    expect(weeks[11]).toMatchObject({ start: at(4, 8, 0), minutes: 10 })
+    expect(weeks[10]).toMatchObject({ start: at(4, 1, 0), minutes: 25 })
+  })
+
+  it("drops sessions older than the oldest bucket", () => {
+    const months = focusedMinutesByPeriod([session(at(1, 15, 9)), session(new Date(2022, 0, 1).getTime())], "month", at(4, 8, 12))
+    expect(months[11].start).toBe(at(4, 1, 0))
+    expect(months[8]).toMatchObject({ start: at(1, 1, 0), minutes: 25 })
+    expect(months.reduce((total, bucket) => total + bucket.minutes, 0)).toBe(25)
+  })
+})
+
+describe("summarizeOutcomes", () => {
+  it("reports zero rates without timed sessions", () => {
+    expect(summarizeOutcomes([session(at(4, 7, 9), { outcome: "cruise" })])).toEqual({
+      completed: 0,
+      disengaged: 0,
+      cruise: 1,
+      completionRate: 0,
+      disengageRate: 0,
+    })
+  })
+})
@@ -0,0 +1,189 @@
+// ===== SESSION STATS =====
+// Pure aggregations over the session history used by the STATS view.
+
+import { addDays, addMonths, addWeeks, format, startOfDay, startOfMonth, startOfWeek, subDays } from "date-fns"
+
+import type { SessionRecord } from "@/lib/session-history"
+
+export type StatsPeriod = "day" | "week" | "month"
+
+export interface FocusBucket {
+  start: number
+  label: string
+  minutes: number
+}
+
+export interface OutcomeSummary {
+  completed: number
+  disengaged: number
+  cruise: number
+  completionRate: number // 0-1, over timed sessions only
+  disengageRate: number // 0-1, over timed sessions only
+}
+
+export interface HourBucket {
+  hour: number
+  label: string
+  sessions: number
+}
+
+export interface ProjectWeek {
+  start: number
+  label: string
+  minutes: Record<string, number> // Focused minutes keyed by project id, NO_PROJECT for unassigned
+}
+
+export interface DailyProgress {
+  today: number // Completed tunnels so far today
+  streak: number // Consecutive days, ending today or yesterday, where the goal was met
+}
+
+// How each period is bucketed, stepped and labelled on the chart axis
+const PERIODS: Record<
+  StatsPeriod,
+  { count: number; startOf: (date: Date | number) => Date; add: (date: Date, amount: number) => Date; label: string }
+> = {
+  day: { count: 14, startOf: startOfDay, add: addDays, label: "dd MMM" },
+  week: { count: 12, startOf: (date) => startOfWeek(date, { weekStartsOn: 1 }), add: addWeeks, label: "dd MMM" },
+  month: { count: 12, startOf: startOfMonth, add: addMonths, label: "MMM yy" },
+}
+
+// Key used for sessions without a project
+export const NO_PROJECT = "none"
+
+// Start and axis label of the most recent buckets of a period, oldest first
+const periodStarts = (period: StatsPeriod, count: number, now: number) => {
+  const { startOf, add, label } = PERIODS[period]
+  const current = startOf(now)
+  return Array.from({ length: count }, (_, i) => {
+    const start = add(current, i - count + 1)
+    return { start: start.getTime(), label: format(start, label).toUpperCase() }
+  })
+}
+
+// Focused minutes for the most recent buckets of a period, oldest first, including empty ones
+export const focusedMinutesByPeriod = (
+  records: SessionRecord[],
+  period: StatsPeriod,
+  now: number = Date.now(),
+): FocusBucket[] => {
+  const { count, startOf } = PERIODS[period]
+  const buckets: FocusBucket[] = periodStarts(period, count, now).map((bucket) => ({ ...bucket, minutes: 0 }))
+
+  const indexByStart = new Map(buckets.map((bucket, index) => [bucket.start, index]))
+  records.forEach((record) => {
+    const index = indexByStart.get(startOf(record.startedAt).getTime())
+    if (index !== undefined) {
+      buckets[index].minutes += record.focusedTime / 60000
+    }
+  })
+
+  return buckets.map((bucket) => ({ ...bucket, minutes: Math.round(bucket.minutes) }))
+}
+
+// Focused minutes per project for the most recent weeks, oldest first
+export const focusedMinutesByProjectPerWeek = (
+  records: SessionRecord[],
+  weeks: number = PERIODS.week.count,
+  now: number = Date.now(),
+): ProjectWeek[] => {
+  const buckets: ProjectWeek[] = periodStarts("week", weeks, now).map((bucket) => ({ ...bucket, minutes: {} }))
+
+  const indexByStart = new Map(buckets.map((bucket, index) => [bucket.start, index]))
+  records.forEach((record) => {
+    const index = indexByStart.get(PERIODS.week.startOf(record.startedAt).getTime())
+    if (index === undefined) return
+    const key = record.projectId ?? NO_PROJECT
+    const totals = buckets[index].minutes
+    totals[key] = (totals[key] ?? 0) + record.focusedTime / 60000
+  })
+
+  return buckets.map((bucket) => ({
+    ...bucket,
+    minutes: Object.fromEntries(Object.entries(bucket.minutes).map(([key, minutes]) => [key, Math.round(minutes)])),
+  }))
+}
+
+export const summarizeOutcomes = (records: SessionRecord[]): OutcomeSummary => {
+  const completed = records.filter((record) => record.outcome === "completed").length
+  const disengaged = records.filter((record) => record.outcome === "disengaged").length
+  const cruise = records.filter((record) => record.outcome === "cruise").length
+  const timed = completed + disengaged
+
+  return {
+    completed,
+    disengaged,
+    cruise,
+    completionRate: timed ? completed / timed : 0,
+    disengageRate: timed ? disengaged / timed : 0,
+  }
+}
+
+// Average length of a single SURFACE break in ms, 0 when no breaks were taken
+export const averageBreakLength = (records: SessionRecord[]) => {
+  const breaks = records.reduce((total, record) => total + record.surfaceCount, 0)
+  const breakTime = records.reduce((total, record) => total + record.breakTime, 0)
+  return breaks ? breakTime / breaks : 0
+}
+
+// Number of sessions launched in each hour of the day
+export const sessionsByHour = (records: SessionRecord[]): HourBucket[] => {
+  const buckets = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    label: hour.toString().padStart(2, "0"),
+    sessions: 0,
+  }))
+  records.forEach((record) => {
+    buckets[new Date(record.startedAt).getHours()].sessions += 1
+  })
+  return buckets
+}
+
+export const totalFocusedTime = (records: SessionRecord[]) =>
+  records.reduce((total, record) => total + record.focusedTime, 0)
+
+// Local day a timestamp belongs to, e.g. "2024-03-09". With a rollover hour of 4,
+// anything before 04:00 still counts towards the previous day.
+export const dayKey = (timestamp: number | Date, rolloverHour = 0) =>
+  format(new Date(timestamp).getTime() - rolloverHour * 3600000, "yyyy-MM-dd")
+
+// Records grouped by the day they were launched on
+export const groupRecordsByDay = (records: SessionRecord[], rolloverHour = 0) => {
+  const days = new Map<string, SessionRecord[]>()
+  records.forEach((record) => {
+    const key = dayKey(record.startedAt, rolloverHour)
+    days.set(key, [...(days.get(key) ?? []), record])
+  })
+  return days
+}
+
+// Today's completed tunnels and the current goal streak. A day that hasn't met
+// the goal yet doesn't break the streak until it is over.
+export const dailyProgress = (
+  records: SessionRecord[],
+  goal: number,
+  rolloverHour = 0,
+  now: number = Date.now(),
+): DailyProgress => {
+  const completedByDay = new Map<string, number>()
+  records.forEach((record) => {
+    if (record.outcome !== "completed") return
+    const key = dayKey(record.startedAt, rolloverHour)
+    completedByDay.set(key, (completedByDay.get(key) ?? 0) + 1)
+  })
+
+  // Walk back from the shifted "now" so every step lands on the same rollover-aware day
+  let cursor = new Date(now - rolloverHour * 3600000)
+  const today = completedByDay.get(dayKey(cursor)) ?? 0
+  if (today < goal) {
+    cursor = subDays(cursor, 1)
+  }
+
+  let streak = 0
+  while ((completedByDay.get(dayKey(cursor)) ?? 0) >= goal) {
+    streak += 1
+    cursor = subDays(cursor, 1)
+  }
+
+  return { today, streak }
+}
@@ -0,0 +1,79 @@
+// ===== USER SETTINGS =====
+// Timer values the user can edit from the SETTINGS panel. Durations are stored
+// as whole minutes so the saved values match what the panel shows.
+
+export interface TimerSettings {
+  workMinutes: number
+  breakMinutes: number
+  longBreakMinutes: number
+  longBreakInterval: number // Completed tunnels before a long break is due
+  dailyGoal: number // Completed tunnels per day
+  dayRolloverHour: number // Local hour a new day starts, for people working past midnight
+}
+
+export const DEFAULT_SETTINGS: TimerSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakInterval: 4,
+  dailyGoal: 8,
+  dayRolloverHour: 0,
+}
+
+export const SETTINGS_LIMITS = {
+  MIN_MINUTES: 1,
+  MAX_MINUTES: 180,
+  MIN_INTERVAL: 1,
+  MAX_INTERVAL: 12,
+  MIN_GOAL: 1,
+  MAX_GOAL: 48,
+  MIN_HOUR: 0,
+  MAX_HOUR: 23,
+}
+
+const STORAGE_KEY = "warpomodoro-settings"
+
+// Clamp an integer into the allowed range, falling back when it isn't a number
+const clampInt = (value: unknown, fallback: number, min: number, max: number): number => {
+  const parsed = typeof value === "number" ? value : Number.parseInt(String(value), 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return Math.min(Math.max(Math.round(parsed), min), max)
+}
+
+const clampMinutes = (value: unknown, fallback: number) =>
+  clampInt(value, fallback, SETTINGS_LIMITS.MIN_MINUTES, SETTINGS_LIMITS.MAX_MINUTES)
+
+// Fill in defaults and clamp every field so callers always get a usable object
+export const normalizeSettings = (value: Partial<TimerSettings> | null | undefined): TimerSettings => ({
+  workMinutes: clampMinutes(value?.workMinutes, DEFAULT_SETTINGS.workMinutes),
+  breakMinutes: clampMinutes(value?.breakMinutes, DEFAULT_SETTINGS.breakMinutes),
+  longBreakMinutes: clampMinutes(value?.longBreakMinutes, DEFAULT_SETTINGS.longBreakMinutes),
+  longBreakInterval: clampInt(
+    value?.longBreakInterval,
+    DEFAULT_SETTINGS.longBreakInterval,
+    SETTINGS_LIMITS.MIN_INTERVAL,
+    SETTINGS_LIMITS.MAX_INTERVAL,
+  ),
+  dailyGoal: clampInt(value?.dailyGoal, DEFAULT_SETTINGS.dailyGoal, SETTINGS_LIMITS.MIN_GOAL, SETTINGS_LIMITS.MAX_GOAL),
+  dayRolloverHour: clampInt(
+    value?.dayRolloverHour,
+    DEFAULT_SETTINGS.dayRolloverHour,
+    SETTINGS_LIMITS.MIN_HOUR,
+    SETTINGS_LIMITS.MAX_HOUR,
+  ),
+})
+
+export const loadSettings = (): TimerSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return normalizeSettings(saved ? JSON.parse(saved) : null)
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export const saveSettings = (settings: TimerSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+export const minutesToMs = (minutes: number) => minutes * 60 * 1000
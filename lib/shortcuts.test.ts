@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  formatKey,
+  isBindableKey,
+  keyFromEvent,
+  rebindShortcut,
+} from "@/lib/shortcuts"
+
+describe("rebindShortcut", () => {
+  it("binds a free key", () => {
+    const shortcuts = rebindShortcut(DEFAULT_SHORTCUTS, "surface", "s")
+
+    expect(shortcuts.surface).toBe("s")
+    expect(findShortcutAction(shortcuts, "b")).toBeNull()
+  })
+
+  it("swaps keys with the action that already had it", () => {
+    const shortcuts = rebindShortcut(DEFAULT_SHORTCUTS, "surface", "t")
+
+    expect(shortcuts.surface).toBe("t")
+    expect(shortcuts.cycleTheme).toBe("b")
+  })
+
+  it("keeps every key unique", () => {
+    const shortcuts = rebindShortcut(rebindShortcut(DEFAULT_SHORTCUTS, "primary", "Escape"), "help", " ")
+    const keys = Object.values(shortcuts)
+
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+})
+
+describe("keys", () => {
+  it("matches letters regardless of Shift or Caps Lock", () => {
+    expect(keyFromEvent({ key: "B" } as KeyboardEvent)).toBe("b")
+    expect(keyFromEvent({ key: "Escape" } as KeyboardEvent)).toBe("Escape")
+  })
+
+  it("refuses modifier keys", () => {
+    expect(isBindableKey("Shift")).toBe(false)
+    expect(isBindableKey("Tab")).toBe(false)
+    expect(isBindableKey("k")).toBe(true)
+  })
+
+  it("formats keys for the help overlay", () => {
+    expect(formatKey(" ")).toBe("SPACE")
+    expect(formatKey("Escape")).toBe("ESC")
+    expect(formatKey("ArrowUp")).toBe("UP")
+    expect(formatKey("b")).toBe("B")
+  })
+})
@@ -0,0 +1,87 @@
+// ===== KEYBOARD SHORTCUTS =====
+// Global shortcuts for every on-screen action. Bindings are KeyboardEvent.key
+// values, letters lowercased, and can be remapped from the KEYS overlay.
+
+export type ShortcutAction =
+  | "primary"
+  | "surface"
+  | "hold"
+  | "disengage"
+  | "cycleTheme"
+  | "toggleProgress"
+  | "toggleControls"
+  | "toggleAmbient"
+  | "help"
+
+export type ShortcutMap = Record<ShortcutAction, string>
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  primary: " ",
+  surface: "b",
+  hold: "h",
+  disengage: "Escape",
+  cycleTheme: "t",
+  toggleProgress: "p",
+  toggleControls: "c",
+  toggleAmbient: "a",
+  help: "?",
+}
+
+// In the order the help overlay lists them
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  primary: "LAUNCH / RESUME / RETURN",
+  surface: "SURFACE",
+  hold: "HOLD / RELEASE",
+  disengage: "DISENGAGE / CLOSE",
+  cycleTheme: "NEXT FIELD",
+  toggleProgress: "PROG",
+  toggleControls: "CTRL",
+  toggleAmbient: "AMBT",
+  help: "KEYS",
+}
+
+const STORAGE_KEY = "warpomodoro-shortcuts"
+
+// Keys that belong to the browser or only modify other keys
+const UNBINDABLE_KEYS = ["Tab", "Shift", "Control", "Alt", "Meta", "CapsLock", "Dead", "Unidentified"]
+
+export const keyFromEvent = (event: KeyboardEvent) => (event.key.length === 1 ? event.key.toLowerCase() : event.key)
+
+export const isBindableKey = (key: string) => key.length > 0 && !UNBINDABLE_KEYS.includes(key)
+
+export const formatKey = (key: string) => {
+  if (key === " ") return "SPACE"
+  if (key === "Escape") return "ESC"
+  return key.replace(/^Arrow/, "").toUpperCase()
+}
+
+export const findShortcutAction = (shortcuts: ShortcutMap, key: string) =>
+  (Object.keys(shortcuts) as ShortcutAction[]).find((action) => shortcuts[action] === key) ?? null
+
+// Bind key to action. An action already on that key takes over the old binding, so keys stay unique.
+export const rebindShortcut = (shortcuts: ShortcutMap, action: ShortcutAction, key: string): ShortcutMap => {
+  const conflict = findShortcutAction(shortcuts, key)
+  return {
+    ...shortcuts,
+    ...(conflict && conflict !== action && { [conflict]: shortcuts[action] }),
+    [action]: key,
+  }
+}
+
+export const loadShortcuts = (): ShortcutMap => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const value: Partial<ShortcutMap> = saved ? JSON.parse(saved) : {}
+    // Start from the defaults and apply each valid saved binding, keeping keys unique
+    return (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).reduce((shortcuts, action) => {
+      const key = value[action]
+      return typeof key === "string" && isBindableKey(key) ? rebindShortcut(shortcuts, action, key) : shortcuts
+    }, DEFAULT_SHORTCUTS)
+  } catch {
+    return DEFAULT_SHORTCUTS
+  }
+}
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shortcuts))
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  BUILT_IN_TRACKS,
+  DEFAULT_SOUND_SETTINGS,
+  trackForLayer,
+  trackForTheme,
+  trackVolume,
+  type AmbientTrack,
+  type SoundSettings,
+} from "@/lib/sound-library"
+
+const MINE: AmbientTrack = { id: "mine", name: "MY SOUND", source: { type: "file", url: "blob:mine" }, custom: true }
+
+const SETTINGS: SoundSettings = {
+  ...DEFAULT_SOUND_SETTINGS,
+  trackByTheme: { REDLINE: "engine-hum", SILT: "mine" },
+  volumes: { rain: 0.4, "engine-hum": 0 },
+}
+
+describe("trackForTheme", () => {
+  it("plays the track picked for the FIELD", () => {
+    expect(trackForTheme(SETTINGS, "REDLINE", BUILT_IN_TRACKS).id).toBe("engine-hum")
+    expect(trackForTheme(SETTINGS, "SILT", [...BUILT_IN_TRACKS, MINE]).id).toBe("mine")
+  })
+
+  it("falls back to DEEP SPACE for FIELDS without a pick", () => {
+    expect(trackForTheme(SETTINGS, "CORE", BUILT_IN_TRACKS).id).toBe("deep-space")
+    expect(trackForTheme(DEFAULT_SOUND_SETTINGS, "REDLINE", BUILT_IN_TRACKS).id).toBe("deep-space")
+  })
+
+  it("falls back to DEEP SPACE once a picked file is removed", () => {
+    expect(trackForTheme(SETTINGS, "SILT", BUILT_IN_TRACKS).id).toBe("deep-space")
+  })
+})
+
+describe("trackForLayer", () => {
+  it("plays the FIELD's track while working", () => {
+    expect(trackForLayer(SETTINGS, "work", "REDLINE", BUILT_IN_TRACKS)?.id).toBe("engine-hum")
+  })
+
+  it("plays the layer's own pick on breaks and at idle", () => {
+    const settings = { ...SETTINGS, layerTracks: { break: "rain", idle: "mine" } }
+    expect(trackForLayer(settings, "break", "REDLINE", BUILT_IN_TRACKS)?.id).toBe("rain")
+    expect(trackForLayer(settings, "idle", "REDLINE", [...BUILT_IN_TRACKS, MINE])?.id).toBe("mine")
+  })
+
+  it("stays silent when the layer is off or its file was removed", () => {
+    const settings = { ...SETTINGS, layerTracks: { break: null, idle: "mine" } }
+    expect(trackForLayer(settings, "break", "REDLINE", BUILT_IN_TRACKS)).toBeNull()
+    expect(trackForLayer(settings, "idle", "REDLINE", BUILT_IN_TRACKS)).toBeNull()
+  })
+
+  it("mutes only the break layer, keeping its pick", () => {
+    const settings = { ...SETTINGS, layerTracks: { break: "rain", idle: "rain" }, muteBreaks: true }
+    expect(trackForLayer(settings, "break", "REDLINE", BUILT_IN_TRACKS)).toBeNull()
+    expect(trackForLayer(settings, "idle", "REDLINE", BUILT_IN_TRACKS)?.id).toBe("rain")
+    expect(trackForLayer({ ...settings, muteBreaks: false }, "break", "REDLINE", BUILT_IN_TRACKS)?.id).toBe("rain")
+  })
+})
+
+describe("trackVolume", () => {
+  it("keeps a volume per track, muted included", () => {
+    expect(trackVolume(SETTINGS, "rain")).toBe(0.4)
+    expect(trackVolume(SETTINGS, "engine-hum")).toBe(0)
+  })
+
+  it("plays untouched tracks at full volume", () => {
+    expect(trackVolume(SETTINGS, "brown-noise")).toBe(1)
+  })
+})
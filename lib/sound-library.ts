@@ -0,0 +1,193 @@
+// ===== SOUND LIBRARY =====
+// The ambient soundscapes AMBT can play. DEEP SPACE is the bundled loop; the
+// others are synthesized live (see lib/ambient-voices.ts), so they cost no
+// downloads; WARP ENGINE among them follows the starfield's speed. Sound files
+// the user adds are kept in IndexedDB on this device.
+// The mixer (lib/audio-mixer.ts) has a layer per phase: the work layer plays the
+// track chosen for the FIELD, break and idle each play one track of their own.
+// Every track keeps its own volume, under a volume per layer and a master volume.
+
+import { openDatabase, promisify, SOUND_STORE } from "@/lib/database"
+import { createId } from "@/lib/utils"
+
+export type SynthKind = "engineHum" | "rain" | "brownNoise" | "bridgeChatter" | "warpEngine"
+
+export type TrackSource = { type: "file"; url: string } | { type: "synth"; synth: SynthKind }
+
+export interface AmbientTrack {
+  id: string
+  name: string
+  source: TrackSource
+  custom?: boolean // Added by the user - can be removed
+}
+
+// A user's sound file as stored in IndexedDB
+interface StoredSound {
+  id: string
+  name: string
+  blob: Blob
+  addedAt: number
+}
+
+export type MixerLayer = "work" | "break" | "idle"
+
+export const MIXER_LAYERS: MixerLayer[] = ["work", "break", "idle"]
+
+export interface SoundSettings {
+  trackByTheme: Record<string, string> // FIELD key -> work layer track id
+  layerTracks: Record<Exclude<MixerLayer, "work">, string | null> // null keeps the layer silent
+  volumes: Record<string, number> // Track id -> 0-1, multiplied into its layer's volume
+  layerVolumes: Record<MixerLayer, number> // 0-1, multiplied into the master volume
+  master: number // 0-1, multiplied into the ambient volume
+  reactiveStars: boolean // Starfield follows the mix - see lib/audio-reactive.ts
+  muteBreaks: boolean // Silences the break layer without forgetting its track
+}
+
+export const BUILT_IN_TRACKS: AmbientTrack[] = [
+  { id: "deep-space", name: "DEEP SPACE", source: { type: "file", url: "/sounds/ambient.mp3" } },
+  { id: "engine-hum", name: "ENGINE HUM", source: { type: "synth", synth: "engineHum" } },
+  { id: "rain", name: "RAIN", source: { type: "synth", synth: "rain" } },
+  { id: "brown-noise", name: "BROWN NOISE", source: { type: "synth", synth: "brownNoise" } },
+  { id: "bridge-chatter", name: "BRIDGE CHATTER", source: { type: "synth", synth: "bridgeChatter" } },
+  { id: "warp-engine", name: "WARP ENGINE", source: { type: "synth", synth: "warpEngine" } },
+]
+
+export const DEFAULT_TRACK_ID = "deep-space"
+export const DEFAULT_TRACK_VOLUME = 1
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  trackByTheme: {},
+  layerTracks: { break: "rain", idle: null },
+  volumes: {},
+  layerVolumes: { work: 1, break: 0.7, idle: 0.5 },
+  master: 1,
+  reactiveStars: false,
+  muteBreaks: false,
+}
+
+const STORAGE_KEY = "warpomodoro-sound"
+
+export const MAX_SOUND_FILE_SIZE = 50 * 1024 * 1024 // Keeps IndexedDB from filling up with one file
+
+// ----- Settings -----
+
+const isVolume = (value: unknown): value is number => typeof value === "number" && value >= 0 && value <= 1
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  typeof value === "object" && value !== null && Object.values(value).every(isVolume)
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === "object" && value !== null && Object.values(value).every((id) => typeof id === "string")
+
+const isTrackChoice = (value: unknown): value is string | null => value === null || typeof value === "string"
+
+export const loadSoundSettings = (): SoundSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const value: Partial<SoundSettings> = saved ? JSON.parse(saved) : {}
+    // Layer settings are merged over the defaults so a layer added later has a value
+    const layerTracks: Partial<SoundSettings["layerTracks"]> =
+      typeof value.layerTracks === "object" && value.layerTracks !== null ? value.layerTracks : {}
+    return {
+      trackByTheme: isStringRecord(value.trackByTheme) ? value.trackByTheme : DEFAULT_SOUND_SETTINGS.trackByTheme,
+      layerTracks: {
+        break: isTrackChoice(layerTracks.break) ? layerTracks.break : DEFAULT_SOUND_SETTINGS.layerTracks.break,
+        idle: isTrackChoice(layerTracks.idle) ? layerTracks.idle : DEFAULT_SOUND_SETTINGS.layerTracks.idle,
+      },
+      volumes: isNumberRecord(value.volumes) ? value.volumes : DEFAULT_SOUND_SETTINGS.volumes,
+      layerVolumes: {
+        ...DEFAULT_SOUND_SETTINGS.layerVolumes,
+        ...(isNumberRecord(value.layerVolumes) ? value.layerVolumes : {}),
+      },
+      master: isVolume(value.master) ? value.master : DEFAULT_SOUND_SETTINGS.master,
+      reactiveStars:
+        typeof value.reactiveStars === "boolean" ? value.reactiveStars : DEFAULT_SOUND_SETTINGS.reactiveStars,
+      muteBreaks: typeof value.muteBreaks === "boolean" ? value.muteBreaks : DEFAULT_SOUND_SETTINGS.muteBreaks,
+    }
+  } catch {
+    return DEFAULT_SOUND_SETTINGS
+  }
+}
+
+export const saveSoundSettings = (settings: SoundSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+// The FIELD's track, falling back to DEEP SPACE when none was picked or it was removed
+export const trackForTheme = (settings: SoundSettings, themeKey: string, tracks: AmbientTrack[]) => {
+  const id = settings.trackByTheme[themeKey]
+  return tracks.find((track) => track.id === id) ?? tracks.find((track) => track.id === DEFAULT_TRACK_ID) ?? tracks[0]
+}
+
+export const trackVolume = (settings: SoundSettings, trackId: string) =>
+  settings.volumes[trackId] ?? DEFAULT_TRACK_VOLUME
+
+// What a layer plays: the FIELD's track while working, otherwise the layer's own
+// pick. Null when the layer is switched off or muted, or its track file was removed.
+export const trackForLayer = (
+  settings: SoundSettings,
+  layer: MixerLayer,
+  themeKey: string,
+  tracks: AmbientTrack[],
+): AmbientTrack | null => {
+  if (layer === "work") return trackForTheme(settings, themeKey, tracks)
+  if (layer === "break" && settings.muteBreaks) return null
+  const id = settings.layerTracks[layer]
+  return tracks.find((track) => track.id === id) ?? null
+}
+
+// ----- User sound files -----
+
+// Object URLs for stored files, kept so each is created once and revoked on removal
+const objectUrls = new Map<string, string>()
+
+const toTrack = (sound: StoredSound): AmbientTrack => {
+  let url = objectUrls.get(sound.id)
+  if (!url) {
+    url = URL.createObjectURL(sound.blob)
+    objectUrls.set(sound.id, url)
+  }
+  return { id: sound.id, name: sound.name, source: { type: "file", url }, custom: true }
+}
+
+// File name without its extension, in the uppercase the rest of the app uses
+const trackName = (fileName: string) =>
+  fileName
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toUpperCase()
+    .slice(0, 32) || "MY SOUND"
+
+// Oldest first, so new files land at the end of the picker
+export const getCustomTracks = async (): Promise<AmbientTrack[]> => {
+  const db = await openDatabase()
+  const store = db.transaction(SOUND_STORE, "readonly").objectStore(SOUND_STORE)
+  const sounds = await promisify(store.getAll() as IDBRequest<StoredSound[]>)
+  return sounds.sort((a, b) => a.addedAt - b.addedAt).map(toTrack)
+}
+
+export const addCustomTrack = async (file: File): Promise<AmbientTrack> => {
+  if (!file.type.startsWith("audio/")) {
+    throw new Error("Not an audio file")
+  }
+  if (file.size > MAX_SOUND_FILE_SIZE) {
+    throw new Error("File is larger than 50 MB")
+  }
+  const sound: StoredSound = { id: createId(), name: trackName(file.name), blob: file, addedAt: Date.now() }
+  const db = await openDatabase()
+  const store = db.transaction(SOUND_STORE, "readwrite").objectStore(SOUND_STORE)
+  await promisify(store.put(sound))
+  return toTrack(sound)
+}
+
+export const removeCustomTrack = async (id: string) => {
+  const db = await openDatabase()
+  const store = db.transaction(SOUND_STORE, "readwrite").objectStore(SOUND_STORE)
+  await promisify(store.delete(id))
+  const url = objectUrls.get(id)
+  if (url) {
+    URL.revokeObjectURL(url)
+    objectUrls.delete(id)
+  }
+}
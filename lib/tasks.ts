@@ -0,0 +1,48 @@
+// ===== TASKS =====
+// Small task list behind the intention picker. Typing a new intention before
+// LAUNCH adds it here; it can be marked done once a tunnel exits.
+
+import { createId } from "@/lib/utils"
+
+export interface Task {
+  id: string
+  title: string
+  done: boolean
+  createdAt: number
+  completedAt?: number
+}
+
+const STORAGE_KEY = "warpomodoro-tasks"
+
+export const MAX_TASK_LENGTH = 80
+
+export const loadTasks = (): Task[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : []
+    return Array.isArray(parsed) ? parsed.filter((task) => typeof task?.id === "string" && typeof task?.title === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export const saveTasks = (tasks: Task[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks))
+}
+
+// Reuse an open task with the same title, otherwise append a new one
+export const findOrCreateTask = (tasks: Task[], title: string): { tasks: Task[]; task: Task } => {
+  const normalized = title.trim().slice(0, MAX_TASK_LENGTH)
+  const existing = tasks.find((task) => !task.done && task.title.toLowerCase() === normalized.toLowerCase())
+  if (existing) {
+    return { tasks, task: existing }
+  }
+
+  const task: Task = { id: createId(), title: normalized, done: false, createdAt: Date.now() }
+  return { tasks: [...tasks, task], task }
+}
+
+export const completeTask = (tasks: Task[], id: string): Task[] =>
+  tasks.map((task) => (task.id === id ? { ...task, done: true, completedAt: Date.now() } : task))
+
+export const removeTask = (tasks: Task[], id: string): Task[] => tasks.filter((task) => task.id !== id)
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { activeThemeWindow, msUntilNextThemeWindow, watchColorScheme, type ThemeWindow } from "@/lib/theme-schedule"
+
+const WINDOWS: ThemeWindow[] = [
+  { id: "night", start: "20:00", theme: "REDLINE" },
+  { id: "morning", start: "07:00", theme: "DOTMATRIX" },
+]
+
+const at = (hours: number, minutes: number, seconds = 0) => new Date(2024, 0, 15, hours, minutes, seconds)
+
+describe("activeThemeWindow", () => {
+  it("picks the latest window to have started", () => {
+    expect(activeThemeWindow(WINDOWS, at(7, 0))?.theme).toBe("DOTMATRIX")
+    expect(activeThemeWindow(WINDOWS, at(19, 59))?.theme).toBe("DOTMATRIX")
+    expect(activeThemeWindow(WINDOWS, at(20, 0))?.theme).toBe("REDLINE")
+  })
+
+  it("carries the last window past midnight", () => {
+    expect(activeThemeWindow(WINDOWS, at(2, 30))?.theme).toBe("REDLINE")
+  })
+
+  it("has nothing to pick without windows", () => {
+    expect(activeThemeWindow([], at(12, 0))).toBeNull()
+  })
+})
+
+describe("msUntilNextThemeWindow", () => {
+  it("counts down to the next start, to the second", () => {
+    expect(msUntilNextThemeWindow(WINDOWS, at(19, 58, 30))).toBe(90_000)
+  })
+
+  it("wraps to tomorrow's first window", () => {
+    expect(msUntilNextThemeWindow(WINDOWS, at(23, 0))).toBe(8 * 60 * 60_000)
+  })
+
+  it("waits a full day with a single window that just started", () => {
+    expect(msUntilNextThemeWindow([WINDOWS[0]], at(20, 0))).toBe(24 * 60 * 60_000)
+  })
+})
+
+describe("watchColorScheme", () => {
+  // A stand-in for the browser's prefers-color-scheme media query
+  const stubMatchMedia = (matches: boolean) => {
+    const listeners = new Set<() => void>()
+    const query = {
+      matches,
+      addEventListener: (_type: string, listener: () => void) => void listeners.add(listener),
+      removeEventListener: (_type: string, listener: () => void) => void listeners.delete(listener),
+    }
+    vi.stubGlobal("window", { matchMedia: () => query })
+    return {
+      change: (dark: boolean) => {
+        query.matches = dark
+        listeners.forEach((listener) => listener())
+      },
+      listeners,
+    }
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("reports the current scheme, then every change", () => {
+    const media = stubMatchMedia(true)
+    const schemes: string[] = []
+    watchColorScheme((scheme) => schemes.push(scheme))
+    media.change(false)
+    expect(schemes).toEqual(["dark", "light"])
+  })
+
+  it("stops listening once unsubscribed", () => {
+    const media = stubMatchMedia(false)
+    const stop = watchColorScheme(() => {})
+    stop()
+    expect(media.listeners.size).toBe(0)
+  })
+})
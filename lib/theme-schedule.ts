@@ -0,0 +1,117 @@
+// ===== FIELD SCHEDULE =====
+// Switches FIELDS automatically, either by time of day or by following the OS
+// light/dark preference (prefers-color-scheme). A manual pick still applies
+// straight away and holds until the next window starts or the OS scheme changes.
+
+import { createId } from "@/lib/utils"
+
+export type ThemeMode = "manual" | "schedule" | "system"
+
+// A window runs from its start time until the next window starts, wrapping past midnight
+export interface ThemeWindow {
+  id: string
+  start: string // "HH:MM", local time
+  theme: string // Built-in name or custom FIELD id
+}
+
+export interface ThemeSchedule {
+  mode: ThemeMode
+  windows: ThemeWindow[]
+  light: string // FIELD for a light OS scheme
+  dark: string // FIELD for a dark OS scheme
+}
+
+export type ColorScheme = "light" | "dark"
+
+export const DEFAULT_THEME_SCHEDULE: ThemeSchedule = {
+  mode: "manual",
+  windows: [
+    { id: "morning", start: "07:00", theme: "DOTMATRIX" },
+    { id: "day", start: "12:00", theme: "CORE" },
+    { id: "night", start: "20:00", theme: "REDLINE" },
+  ],
+  light: "DOTMATRIX",
+  dark: "CORE",
+}
+
+const STORAGE_KEY = "warpomodoro-theme-schedule"
+const MODES: ThemeMode[] = ["manual", "schedule", "system"]
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+const MINUTES_PER_DAY = 24 * 60
+
+const toMinutes = (time: string) => {
+  const match = TIME_PATTERN.exec(time)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+const isWindow = (value: unknown): value is ThemeWindow => {
+  const themeWindow = value as Partial<ThemeWindow> | null
+  return (
+    typeof themeWindow?.id === "string" &&
+    typeof themeWindow.theme === "string" &&
+    typeof themeWindow.start === "string" &&
+    toMinutes(themeWindow.start) !== null
+  )
+}
+
+export const loadThemeSchedule = (): ThemeSchedule => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const value: Partial<ThemeSchedule> = saved ? JSON.parse(saved) : {}
+    return {
+      mode: MODES.includes(value.mode as ThemeMode) ? (value.mode as ThemeMode) : DEFAULT_THEME_SCHEDULE.mode,
+      windows: Array.isArray(value.windows) ? value.windows.filter(isWindow) : DEFAULT_THEME_SCHEDULE.windows,
+      light: typeof value.light === "string" ? value.light : DEFAULT_THEME_SCHEDULE.light,
+      dark: typeof value.dark === "string" ? value.dark : DEFAULT_THEME_SCHEDULE.dark,
+    }
+  } catch {
+    return DEFAULT_THEME_SCHEDULE
+  }
+}
+
+export const saveThemeSchedule = (schedule: ThemeSchedule) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schedule))
+}
+
+export const createThemeWindow = (windows: ThemeWindow[], start: string, theme: string): ThemeWindow[] => [
+  ...windows,
+  { id: createId(), start, theme },
+]
+
+export const sortThemeWindows = (windows: ThemeWindow[]) =>
+  [...windows].sort((a, b) => (toMinutes(a.start) ?? 0) - (toMinutes(b.start) ?? 0))
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes()
+
+// The window in effect at date - the latest one to start, or yesterday's last one before the first start
+export const activeThemeWindow = (windows: ThemeWindow[], date: Date): ThemeWindow | null => {
+  const sorted = sortThemeWindows(windows)
+  if (sorted.length === 0) return null
+  const now = minutesOfDay(date)
+  return sorted.filter((themeWindow) => (toMinutes(themeWindow.start) ?? 0) <= now).pop() ?? sorted[sorted.length - 1]
+}
+
+// Milliseconds from date until the next window starts, or null without windows
+export const msUntilNextThemeWindow = (windows: ThemeWindow[], date: Date) => {
+  if (windows.length === 0) return null
+  const now = minutesOfDay(date)
+  const minutesAhead = Math.min(
+    ...windows.map((themeWindow) => {
+      const ahead = ((toMinutes(themeWindow.start) ?? 0) - now + MINUTES_PER_DAY) % MINUTES_PER_DAY
+      return ahead === 0 ? MINUTES_PER_DAY : ahead
+    }),
+  )
+  // Land on the minute boundary itself
+  return minutesAhead * 60000 - date.getSeconds() * 1000 - date.getMilliseconds()
+}
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)"
+
+// Reports the OS colour scheme now and on every change; returns the unsubscribe
+export const watchColorScheme = (onChange: (scheme: ColorScheme) => void) => {
+  const query = window.matchMedia(DARK_SCHEME_QUERY)
+  const report = () => onChange(query.matches ? "dark" : "light")
+  report()
+  query.addEventListener("change", report)
+  return () => query.removeEventListener("change", report)
+}
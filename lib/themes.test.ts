@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  createCustomTheme,
+  decodeThemeCode,
+  duplicateTheme,
+  encodeThemeCode,
+  findTheme,
+  listThemeKeys,
+  normalizeThemeName,
+  removeCustomTheme,
+  THEMES,
+  updateCustomTheme,
+} from "@/lib/themes"
+
+const DEEP_SEA = { name: "DEEP SEA", background: "#001022", stars: "#87ceeb", starsSecondary: "#3a6f8f" }
+
+describe("share codes", () => {
+  it("round-trips a FIELD", () => {
+    const code = encodeThemeCode(DEEP_SEA)
+
+    expect(code).toBe("FIELD:DEEP_SEA:00102287ceeb3a6f8f")
+    expect(decodeThemeCode(code)).toEqual(DEEP_SEA)
+  })
+
+  it("carries the trail colour when there is one", () => {
+    const code = encodeThemeCode({ ...DEEP_SEA, trail: "#FFFFFF" })
+
+    expect(code).toBe("FIELD:DEEP_SEA:00102287ceeb3a6f8fffffff")
+    expect(decodeThemeCode(code)).toEqual({ ...DEEP_SEA, trail: "#ffffff" })
+  })
+
+  it("accepts pasted codes with stray whitespace and mixed case", () => {
+    expect(decodeThemeCode("  field:deep_sea:00102287CEEB3a6f8f\n")).toEqual(DEEP_SEA)
+  })
+
+  it("versions codes for FIELDS with layers and round-trips them", () => {
+    const layered = {
+      ...DEEP_SEA,
+      trail: "#ffffff",
+      gradient: { type: "linear" as const, colors: ["#001022", "#000814", "#000000"], angle: 135 },
+      nebula: { colors: ["#87ceeb", "#3a6f8f"] as [string, string], intensity: 0.3, seed: 42 },
+      starfield: { numStars: 250, twinkle: 1.5 },
+    }
+    const code = encodeThemeCode(layered)
+
+    expect(code).toMatch(/^FIELD2:DEEP_SEA:00102287ceeb3a6f8fffffff:[A-Za-z0-9+/]+=*$/)
+    expect(decodeThemeCode(code)).toEqual(layered)
+  })
+
+  it("still loads FIELD codes from before layers were shared", () => {
+    expect(decodeThemeCode("FIELD:SILT:3c3a37c2b9a4857f75")).toEqual({
+      name: "SILT",
+      background: "#3c3a37",
+      stars: "#c2b9a4",
+      starsSecondary: "#857f75",
+    })
+  })
+
+  it("drops malformed layers from a FIELD2 code and clamps the rest", () => {
+    const payload = btoa(JSON.stringify({ gradient: { type: "conic", colors: [] }, starfield: { numStars: 5 } }))
+
+    expect(decodeThemeCode(`FIELD2:DEEP_SEA:00102287ceeb3a6f8f:${payload}`)).toEqual({
+      ...DEEP_SEA,
+      starfield: { numStars: 100 },
+    })
+  })
+
+  it("rejects anything else", () => {
+    expect(decodeThemeCode("")).toBeNull()
+    expect(decodeThemeCode("FIELD:DEEP_SEA:00102287ceeb")).toBeNull()
+    expect(decodeThemeCode("FIELD:DEEP SEA:00102287ceeb3a6f8f")).toBeNull()
+    expect(decodeThemeCode("FIELD:DEEP_SEA:zz102287ceeb3a6f8f")).toBeNull()
+    expect(decodeThemeCode("FIELD2:DEEP_SEA:00102287ceeb3a6f8f")).toBeNull()
+    expect(decodeThemeCode(`FIELD:DEEP_SEA:00102287ceeb3a6f8f:${btoa("{}")}`)).toBeNull()
+    expect(decodeThemeCode("FIELD2:DEEP_SEA:00102287ceeb3a6f8f:bm90IGpzb24=")).toBeNull()
+  })
+})
+
+describe("custom themes", () => {
+  it("normalizes names for buttons and codes", () => {
+    expect(normalizeThemeName("  deep   sea!! ")).toBe("DEEP SEA")
+    expect(normalizeThemeName("***")).toBe("CUSTOM")
+    expect(normalizeThemeName("a very long field name")).toHaveLength(16)
+  })
+
+  it("lists custom FIELDS after the built-ins and finds them by id", () => {
+    const { themes, theme } = createCustomTheme([], { ...DEEP_SEA, name: "deep sea" })
+
+    expect(theme.name).toBe("DEEP SEA")
+    expect(listThemeKeys(themes)).toEqual([...Object.keys(THEMES), theme.id])
+    expect(findTheme(theme.id, themes)).toEqual(theme)
+    expect(findTheme("CORE", themes)).toBe(THEMES.CORE)
+    expect(findTheme("toString", themes)).toBeNull()
+  })
+
+  it("edits and deletes by id", () => {
+    const { themes, theme } = createCustomTheme([], DEEP_SEA)
+
+    const edited = updateCustomTheme(themes, theme.id, { ...theme, stars: "#FFFFFF" })
+    expect(edited[0]).toEqual({ ...theme, stars: "#ffffff" })
+    expect(removeCustomTheme(edited, theme.id)).toEqual([])
+  })
+
+  it("keeps well-formed layers and clamps starfield overrides", () => {
+    const { theme } = createCustomTheme([], {
+      ...DEEP_SEA,
+      trail: "red",
+      gradient: { type: "radial", colors: ["#001022", "#000000"] },
+      nebula: { colors: ["#87ceeb", "#3a6f8f"], intensity: 4, seed: 3.7 },
+      starfield: { numStars: 99999, starSpeedMax: Number.NaN, trailLengthBase: 300, twinkle: -1 },
+    })
+
+    expect(theme.trail).toBeUndefined()
+    expect(theme.gradient).toEqual({ type: "radial", colors: ["#001022", "#000000"] })
+    expect(theme.nebula).toEqual({ colors: ["#87ceeb", "#3a6f8f"], intensity: 1, seed: 3 })
+    expect(theme.starfield).toEqual({ numStars: 1500, trailLengthBase: 300, twinkle: 0 })
+  })
+
+  it("duplicates any FIELD under a new name", () => {
+    expect(duplicateTheme(THEMES.REDLINE)).toEqual({ ...THEMES.REDLINE, name: "REDLINE 2" })
+  })
+})
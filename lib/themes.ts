@@ -0,0 +1,278 @@
+// ===== FIELDS =====
+// Colour themes for the starfield. The built-in FIELDS are fixed; custom ones are
+// saved in localStorage, keyed by id, and can be shared as a short code string.
+// Beyond its colours a FIELD can paint a gradient or nebula behind the stars and
+// tune the starfield itself.
+
+import { createId } from "@/lib/utils"
+
+export interface FieldGradient {
+  type: "linear" | "radial"
+  colors: string[] // Evenly spaced stops - centre outwards for radial
+  angle?: number // Linear only, degrees clockwise from top to bottom (180 runs top to bottom)
+}
+
+export interface NebulaLayer {
+  colors: [string, string] // Blended by a second noise field
+  intensity: number // Peak opacity, 0-1
+  seed: number
+}
+
+// Overrides for the starfield defaults in the page CONFIG
+export interface StarfieldOverrides {
+  numStars?: number
+  starSpeedMax?: number
+  trailLengthBase?: number
+  twinkle?: number // Scales how far each star's size and brightness swing while it twinkles
+}
+
+export interface FieldTheme {
+  name: string
+  background: string // Solid base colour, also used by the panels and favicon
+  stars: string
+  starsSecondary: string
+  trail?: string // Warp trail colour - each star's own colour when unset
+  gradient?: FieldGradient
+  nebula?: NebulaLayer
+  starfield?: StarfieldOverrides
+}
+
+export interface CustomTheme extends FieldTheme {
+  id: string
+}
+
+export const THEMES = {
+  CORE: {
+    name: "CORE",
+    background: "#000000",
+    stars: "#f5f5f5",
+    starsSecondary: "#e0e0e0",
+  },
+  SKYLIGHT: {
+    name: "SKYLIGHT",
+    background: "#2d2d2d",
+    stars: "#87ceeb",
+    starsSecondary: "#b0e0e6",
+    nebula: { colors: ["#87ceeb", "#4a5f8a"], intensity: 0.16, seed: 7 },
+  },
+  DOTMATRIX: {
+    name: "DOTMATRIX",
+    background: "#7d8664",
+    stars: "#1a1a1a",
+    starsSecondary: "#3a3a3a",
+  },
+  TERMINAL: {
+    name: "TERMINAL",
+    background: "#2e2e2e",
+    stars: "#99ff99",
+    starsSecondary: "#66ff66",
+    trail: "#33cc33",
+  },
+  SILT: {
+    name: "SILT",
+    background: "#3c3a37",
+    stars: "#c2b9a4",
+    starsSecondary: "#857f75",
+    gradient: { type: "linear", colors: ["#45423e", "#2f2d2a"], angle: 180 },
+    // Calm: a sparse field that never quite reaches full warp
+    starfield: { numStars: 380, starSpeedMax: 7, trailLengthBase: 260 },
+  },
+  REDLINE: {
+    name: "REDLINE",
+    background: "#0f0f0f",
+    stars: "#ff4d4d",
+    starsSecondary: "#990000",
+    trail: "#ff1a1a",
+    gradient: { type: "radial", colors: ["#240808", "#0f0f0f"] },
+    // Aggressive: a dense field, a faster top speed and longer trails
+    starfield: { numStars: 900, starSpeedMax: 14, trailLengthBase: 520 },
+  },
+} satisfies Record<string, FieldTheme>
+
+export type BuiltInThemeKey = keyof typeof THEMES
+
+export const DEFAULT_THEME: BuiltInThemeKey = "CORE"
+
+const STORAGE_KEY = "warpomodoro-themes"
+
+export const MAX_THEME_NAME_LENGTH = 16
+
+// Keeps a shared or hand-edited FIELD from stalling the animation
+export const STARFIELD_LIMITS = {
+  numStars: { min: 100, max: 1500 },
+  starSpeedMax: { min: 2, max: 20 },
+  trailLengthBase: { min: 50, max: 1000 },
+  twinkle: { min: 0, max: 2 },
+}
+
+// Share codes look like FIELD:DEEP_SEA:001022f5f5f5e0e0e0, with the trail colour appended when set.
+// A FIELD with a gradient, nebula or starfield overrides shares as FIELD2, the same code followed by
+// those layers as base64 JSON. Colour-only FIELDS keep the shorter FIELD form, which still loads.
+const CODE_PREFIX = "FIELD"
+const LAYERED_CODE_PREFIX = "FIELD2"
+const CODE_PATTERN = /^FIELD(2)?:([A-Z0-9_]{1,16}):([0-9a-f]{18}(?:[0-9a-f]{6})?)(?::([A-Za-z0-9+/]+={0,2}))?$/i
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export const isBuiltInTheme = (key: string): key is BuiltInThemeKey =>
+  Object.prototype.hasOwnProperty.call(THEMES, key)
+
+// Built-ins first, then custom FIELDS in the order they were made
+export const listThemeKeys = (customThemes: CustomTheme[]) => [
+  ...Object.keys(THEMES),
+  ...customThemes.map((theme) => theme.id),
+]
+
+export const findTheme = (key: string, customThemes: CustomTheme[]): FieldTheme | null =>
+  isBuiltInTheme(key) ? THEMES[key] : (customThemes.find((theme) => theme.id === key) ?? null)
+
+// Names show in uppercase buttons and share codes, so keep them to letters, digits and spaces
+export const normalizeThemeName = (name: string) =>
+  name
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_THEME_NAME_LENGTH) || "CUSTOM"
+
+const isColor = (value: unknown): value is string => typeof value === "string" && HEX_COLOR.test(value)
+
+const isFieldTheme = (value: unknown): value is FieldTheme => {
+  const theme = value as Partial<FieldTheme> | null
+  return typeof theme?.name === "string" && [theme.background, theme.stars, theme.starsSecondary].every(isColor)
+}
+
+export const loadCustomThemes = (): CustomTheme[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : []
+    return Array.isArray(parsed)
+      ? parsed
+          .filter((theme): theme is CustomTheme => typeof theme?.id === "string" && isFieldTheme(theme))
+          .map((theme) => toCustomTheme(theme.id, theme))
+      : []
+  } catch {
+    return []
+  }
+}
+
+export const saveCustomThemes = (themes: CustomTheme[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(themes))
+}
+
+const clampNumber = (value: unknown, { min, max }: { min: number; max: number }) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : undefined
+
+// Keep only the well-formed optional layers of a saved or imported FIELD
+const sanitizeExtras = (theme: Partial<FieldTheme>): Partial<FieldTheme> => {
+  const extras: Partial<FieldTheme> = {}
+  if (isColor(theme.trail)) extras.trail = theme.trail.toLowerCase()
+
+  const gradient = theme.gradient
+  if (
+    (gradient?.type === "linear" || gradient?.type === "radial") &&
+    Array.isArray(gradient.colors) &&
+    gradient.colors.length >= 2 &&
+    gradient.colors.every(isColor)
+  ) {
+    extras.gradient = {
+      type: gradient.type,
+      colors: gradient.colors.map((color) => color.toLowerCase()),
+      ...(gradient.type === "linear" && typeof gradient.angle === "number" && { angle: gradient.angle }),
+    }
+  }
+
+  const nebula = theme.nebula
+  if (nebula && Array.isArray(nebula.colors) && nebula.colors.length === 2 && nebula.colors.every(isColor)) {
+    extras.nebula = {
+      colors: [nebula.colors[0].toLowerCase(), nebula.colors[1].toLowerCase()],
+      intensity: clampNumber(nebula.intensity, { min: 0, max: 1 }) ?? 0.2,
+      seed: typeof nebula.seed === "number" && Number.isFinite(nebula.seed) ? Math.floor(nebula.seed) : 1,
+    }
+  }
+
+  const starfield: StarfieldOverrides = {}
+  for (const key of Object.keys(STARFIELD_LIMITS) as (keyof StarfieldOverrides)[]) {
+    const value = clampNumber(theme.starfield?.[key], STARFIELD_LIMITS[key])
+    if (value !== undefined) starfield[key] = key === "numStars" ? Math.round(value) : value
+  }
+  if (Object.keys(starfield).length > 0) extras.starfield = starfield
+
+  return extras
+}
+
+const toCustomTheme = (id: string, theme: FieldTheme): CustomTheme => ({
+  id,
+  name: normalizeThemeName(theme.name),
+  background: theme.background.toLowerCase(),
+  stars: theme.stars.toLowerCase(),
+  starsSecondary: theme.starsSecondary.toLowerCase(),
+  ...sanitizeExtras(theme),
+})
+
+export const createCustomTheme = (
+  themes: CustomTheme[],
+  theme: FieldTheme,
+): { themes: CustomTheme[]; theme: CustomTheme } => {
+  const created = toCustomTheme(createId(), theme)
+  return { themes: [...themes, created], theme: created }
+}
+
+export const updateCustomTheme = (themes: CustomTheme[], id: string, theme: FieldTheme): CustomTheme[] =>
+  themes.map((existing) => (existing.id === id ? toCustomTheme(id, theme) : existing))
+
+export const removeCustomTheme = (themes: CustomTheme[], id: string): CustomTheme[] =>
+  themes.filter((theme) => theme.id !== id)
+
+// A copy of any FIELD, built-in or custom, as a starting point for a new one
+export const duplicateTheme = (theme: FieldTheme): FieldTheme => ({
+  ...theme,
+  name: `${theme.name.slice(0, MAX_THEME_NAME_LENGTH - 2)} 2`,
+})
+
+// ----- Share codes -----
+
+// The layers a FIELD2 code carries, without the trail colour already in the hex part
+const codeLayers = (theme: Partial<FieldTheme>) => {
+  const { gradient, nebula, starfield } = sanitizeExtras(theme)
+  return { ...(gradient && { gradient }), ...(nebula && { nebula }), ...(starfield && { starfield }) }
+}
+
+export const encodeThemeCode = (theme: FieldTheme) => {
+  const layers = codeLayers(theme)
+  const layered = Object.keys(layers).length > 0
+  return [
+    layered ? LAYERED_CODE_PREFIX : CODE_PREFIX,
+    normalizeThemeName(theme.name).replace(/ /g, "_"),
+    [theme.background, theme.stars, theme.starsSecondary, ...(theme.trail ? [theme.trail] : [])]
+      .map((color) => color.slice(1).toLowerCase())
+      .join(""),
+    ...(layered ? [btoa(JSON.stringify(layers))] : []),
+  ].join(":")
+}
+
+const decodeLayers = (payload: string): Partial<FieldTheme> | null => {
+  try {
+    const parsed: unknown = JSON.parse(atob(payload))
+    return parsed && typeof parsed === "object" ? codeLayers(parsed as Partial<FieldTheme>) : null
+  } catch {
+    return null
+  }
+}
+
+// Read a share code back into a FIELD, or null when it isn't one
+export const decodeThemeCode = (code: string): FieldTheme | null => {
+  const match = CODE_PATTERN.exec(code.trim())
+  // Layers come with FIELD2 codes and only with them
+  if (!match || Boolean(match[1]) !== Boolean(match[4])) return null
+  const layers = match[4] ? decodeLayers(match[4]) : {}
+  if (!layers) return null
+  const colors = match[3].toLowerCase()
+  return {
+    name: normalizeThemeName(match[2].replace(/_/g, " ")),
+    background: `#${colors.slice(0, 6)}`,
+    stars: `#${colors.slice(6, 12)}`,
+    starsSecondary: `#${colors.slice(12, 18)}`,
+    ...(colors.length > 18 && { trail: `#${colors.slice(18)}` }),
+    ...layers,
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createTimerEngine } from "@/lib/timer-engine"
+import type { TimerEvent } from "@/lib/timer-reducer"
+
+const MINUTE = 60 * 1000
+const WORK = 25 * MINUTE
+
+describe("createTimerEngine", () => {
+  let events: TimerEvent[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.UTC(2025, 0, 6, 9, 0))
+    events = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createEngine = () => createTimerEngine((event) => events.push(event), () => Date.now())
+
+  it("emits a state event for each transition and none for ignored commands", () => {
+    const engine = createEngine()
+    engine.send({ type: "hold" })
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+
+    expect(events).toEqual([{ type: "state", snapshot: engine.getSnapshot() }])
+    engine.dispose()
+  })
+
+  it("wakes itself at the end of the tunnel", () => {
+    const engine = createEngine()
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    vi.advanceTimersByTime(WORK - 1)
+    expect(engine.getSnapshot().state).toBe("working")
+
+    vi.advanceTimersByTime(1)
+    expect(engine.getSnapshot().state).toBe("workComplete")
+    expect(events.slice(1).map((event) => event.type)).toEqual(["state", "workComplete"])
+    engine.dispose()
+  })
+
+  it("catches up on a sync after the clock jumps, e.g. when the machine wakes", () => {
+    const engine = createEngine()
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    // Move the clock without firing timers, as a suspended machine would
+    vi.setSystemTime(Date.now() + WORK + MINUTE)
+    engine.send({ type: "sync" })
+
+    expect(engine.getSnapshot().state).toBe("workComplete")
+    engine.dispose()
+  })
+
+  it("ends a break on time", () => {
+    const engine = createEngine()
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    vi.advanceTimersByTime(MINUTE)
+    engine.send({ type: "surface", breakDuration: 5 * MINUTE })
+    vi.advanceTimersByTime(5 * MINUTE)
+
+    expect(engine.getSnapshot().state).toBe("breakComplete")
+    expect(events.at(-1)).toEqual({ type: "breakComplete", breakKind: "surface" })
+    engine.dispose()
+  })
+
+  it("wakes at the halfway point of a break", () => {
+    const engine = createEngine()
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    engine.send({ type: "surface", breakDuration: 10 * MINUTE })
+    vi.advanceTimersByTime(5 * MINUTE)
+
+    expect(events.at(-1)).toEqual({ type: "breakHalfway", breakKind: "surface", remaining: 5 * MINUTE })
+    engine.dispose()
+  })
+
+  it("stops waking once disposed", () => {
+    const engine = createEngine()
+    engine.send({ type: "start", workDuration: WORK, cruiseMode: false })
+    engine.dispose()
+    vi.advanceTimersByTime(2 * WORK)
+
+    expect(engine.getSnapshot().state).toBe("working")
+  })
+})
@@ -0,0 +1,56 @@
+// ===== TIMER ENGINE =====
+// Runs the timer reducer (lib/timer-reducer.ts) against the wall clock, apart
+// from the canvas and React. It takes typed commands, emits typed events and
+// wakes itself at session boundaries, so it runs the same in a Web Worker
+// (lib/timer.worker.ts) or on the main thread when workers aren't available.
+
+import {
+  IDLE_TIMER,
+  reduceTimer,
+  settleTimer,
+  timeToNextBoundary,
+  type TimerCommand,
+  type TimerEvent,
+  type TimerSnapshot,
+  type TimerTransition,
+} from "@/lib/timer-reducer"
+
+export interface TimerEngine {
+  send: (command: TimerCommand) => void
+  getSnapshot: () => TimerSnapshot
+  dispose: () => void
+}
+
+// Longest wait between wall-clock checks, in case timers drift during sleep
+const BOUNDARY_CHECK_INTERVAL = 30 * 1000
+
+export const createTimerEngine = (emit: (event: TimerEvent) => void, now: () => number = Date.now): TimerEngine => {
+  let snapshot = IDLE_TIMER
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  const apply = (transition: TimerTransition) => {
+    if (transition.snapshot !== snapshot) {
+      snapshot = transition.snapshot
+      emit({ type: "state", snapshot })
+    }
+    transition.events.forEach(emit)
+    schedule()
+  }
+
+  // Wait for the next boundary, waking at least every BOUNDARY_CHECK_INTERVAL
+  function schedule() {
+    clearTimeout(timeout)
+    const wait = timeToNextBoundary(snapshot, now())
+    if (wait === null) return
+    timeout = setTimeout(
+      () => apply(settleTimer(snapshot, now())),
+      Math.max(Math.min(wait, BOUNDARY_CHECK_INTERVAL), 0),
+    )
+  }
+
+  return {
+    send: (command) => apply(reduceTimer(snapshot, command, now())),
+    getSnapshot: () => snapshot,
+    dispose: () => clearTimeout(timeout),
+  }
+}
@@ -0,0 +1,344 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  IDLE_TIMER,
+  reduceTimer,
+  remainingTime,
+  settleTimer,
+  type SessionEvent,
+  type TimerCommand,
+  type TimerSnapshot,
+} from "@/lib/timer-reducer"
+
+const MINUTE = 60 * 1000
+const WORK = 25 * MINUTE
+const BREAK = 5 * MINUTE
+const START = Date.UTC(2025, 0, 6, 9, 0)
+
+// Drives the reducer with a fake clock and keeps every event it produces
+const createTimer = (snapshot: TimerSnapshot = IDLE_TIMER) => {
+  let now = START
+  const events: SessionEvent[] = []
+  const timer = {
+    snapshot,
+    events,
+    get now() {
+      return now
+    },
+    send: (command: TimerCommand) => {
+      const transition = reduceTimer(timer.snapshot, command, now)
+      timer.snapshot = transition.snapshot
+      events.push(...transition.events)
+      return timer
+    },
+    // Move the clock forward and let any boundary it crosses close the phase
+    advance: (milliseconds: number) => {
+      now += milliseconds
+      const transition = settleTimer(timer.snapshot, now)
+      timer.snapshot = transition.snapshot
+      events.push(...transition.events)
+      return timer
+    },
+  }
+  return timer
+}
+
+const launch = (cruiseMode = false) => createTimer().send({ type: "start", workDuration: WORK, cruiseMode })
+
+describe("idle", () => {
+  it("starts a timed tunnel and opens a session", () => {
+    const timer = launch()
+
+    expect(timer.snapshot.state).toBe("working")
+    expect(timer.snapshot.session).toEqual({
+      startedAt: START,
+      plannedDuration: WORK,
+      surfaceCount: 0,
+      breakTime: 0,
+      pausedTime: 0,
+    })
+    expect(remainingTime(timer.snapshot, timer.now)).toBe(WORK)
+  })
+
+  it("ignores commands that only apply to a running session", () => {
+    const commands: TimerCommand[] = [
+      { type: "surface", breakDuration: BREAK },
+      { type: "hold" },
+      { type: "resume" },
+      { type: "disengage" },
+      { type: "startBreak", kind: "short", breakDuration: BREAK },
+      { type: "skip" },
+      { type: "sync" },
+    ]
+    commands.forEach((command) => {
+      expect(reduceTimer(IDLE_TIMER, command, START)).toEqual({ snapshot: IDLE_TIMER, events: [] })
+    })
+  })
+})
+
+describe("working", () => {
+  it("ignores a second start", () => {
+    const timer = launch()
+    const before = timer.snapshot
+    timer.advance(MINUTE).send({ type: "start", workDuration: WORK, cruiseMode: true })
+
+    expect(timer.snapshot).toBe(before)
+  })
+
+  it("completes once the work duration has passed", () => {
+    const timer = launch().advance(WORK - 1)
+    expect(timer.snapshot.state).toBe("working")
+    expect(timer.events).toEqual([])
+
+    timer.advance(1)
+    expect(timer.snapshot.state).toBe("workComplete")
+    expect(timer.snapshot.session).toBeNull()
+    expect(timer.events).toEqual([
+      {
+        type: "workComplete",
+        session: {
+          startedAt: START,
+          endedAt: START + WORK,
+          plannedDuration: WORK,
+          focusedTime: WORK,
+          breakTime: 0,
+          pausedTime: 0,
+          surfaceCount: 0,
+          outcome: "completed",
+        },
+      },
+    ])
+  })
+
+  it("disengages early without counting as completed", () => {
+    const timer = launch().advance(10 * MINUTE).send({ type: "disengage" })
+
+    expect(timer.snapshot).toBe(IDLE_TIMER)
+    expect(timer.events).toEqual([
+      {
+        type: "sessionEnded",
+        session: expect.objectContaining({ focusedTime: 10 * MINUTE, outcome: "disengaged" }),
+      },
+    ])
+  })
+
+  it("freezes the countdown during a HOLD and logs the held time", () => {
+    const timer = launch().advance(10 * MINUTE).send({ type: "hold" })
+    expect(timer.snapshot.state).toBe("paused")
+
+    timer.advance(WORK)
+    expect(timer.snapshot.state).toBe("paused")
+    expect(remainingTime(timer.snapshot, timer.now)).toBeNull()
+
+    timer.send({ type: "resume" })
+    expect(remainingTime(timer.snapshot, timer.now)).toBe(15 * MINUTE)
+
+    timer.advance(15 * MINUTE)
+    expect(timer.events).toEqual([
+      { type: "workComplete", session: expect.objectContaining({ pausedTime: WORK, focusedTime: WORK }) },
+    ])
+  })
+
+  it("doesn't count held time as focused when disengaging from a HOLD", () => {
+    const timer = launch().advance(5 * MINUTE).send({ type: "hold" }).advance(3 * MINUTE).send({ type: "disengage" })
+
+    expect(timer.events).toEqual([
+      {
+        type: "sessionEnded",
+        session: expect.objectContaining({ focusedTime: 5 * MINUTE, pausedTime: 3 * MINUTE, outcome: "disengaged" }),
+      },
+    ])
+  })
+})
+
+describe("SURFACE breaks", () => {
+  it("banks the work done so far and counts the break", () => {
+    const timer = launch().advance(10 * MINUTE).send({ type: "surface", breakDuration: BREAK })
+
+    expect(timer.snapshot.state).toBe("break")
+    expect(timer.snapshot.breakKind).toBe("surface")
+    expect(timer.snapshot.workElapsed).toBe(10 * MINUTE)
+    expect(timer.snapshot.session?.surfaceCount).toBe(1)
+  })
+
+  it("keeps earlier work when resuming after several breaks", () => {
+    const timer = launch()
+      .advance(5 * MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+      .advance(MINUTE)
+      .send({ type: "resume" })
+      .advance(7 * MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+      .advance(2 * MINUTE)
+      .send({ type: "resume" })
+      .advance(3 * MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+
+    expect(timer.snapshot.workElapsed).toBe(15 * MINUTE)
+
+    timer.advance(MINUTE).send({ type: "resume" })
+    expect(remainingTime(timer.snapshot, timer.now)).toBe(10 * MINUTE)
+
+    timer.advance(10 * MINUTE)
+    expect(timer.snapshot.state).toBe("workComplete")
+    expect(timer.events).toEqual([
+      {
+        type: "workComplete",
+        session: expect.objectContaining({
+          endedAt: START + 29 * MINUTE,
+          focusedTime: WORK,
+          breakTime: 4 * MINUTE,
+          surfaceCount: 3,
+        }),
+      },
+    ])
+  })
+
+  it("reaches breakComplete when the break runs out", () => {
+    const timer = launch().advance(MINUTE).send({ type: "surface", breakDuration: BREAK }).advance(BREAK)
+
+    expect(timer.snapshot.state).toBe("breakComplete")
+    expect(timer.events).toEqual([{ type: "breakComplete", breakKind: "surface" }])
+  })
+
+  it("abandons the session when leaving the break without resuming", () => {
+    const timer = launch()
+      .advance(8 * MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+      .advance(BREAK)
+      .advance(MINUTE)
+      .send({ type: "skip" })
+
+    expect(timer.snapshot).toBe(IDLE_TIMER)
+    expect(timer.events).toEqual([
+      { type: "breakComplete", breakKind: "surface" },
+      {
+        type: "sessionEnded",
+        session: expect.objectContaining({ focusedTime: 8 * MINUTE, breakTime: 6 * MINUTE, outcome: "disengaged" }),
+      },
+    ])
+  })
+})
+
+describe("breaks after a completed tunnel", () => {
+  const complete = () => launch().advance(WORK)
+
+  it.each(["short", "long"] as const)("runs a %s break to breakComplete and back to idle", (kind) => {
+    const timer = complete().send({ type: "startBreak", kind, breakDuration: BREAK })
+    expect(timer.snapshot.state).toBe("break")
+    expect(timer.snapshot.breakKind).toBe(kind)
+
+    timer.advance(BREAK)
+    expect(timer.snapshot.state).toBe("breakComplete")
+
+    timer.send({ type: "skip" })
+    expect(timer.snapshot).toBe(IDLE_TIMER)
+    expect(timer.events.map((event) => event.type)).toEqual(["workComplete", "breakComplete"])
+  })
+
+  it("can't be resumed into the finished tunnel", () => {
+    const timer = complete().send({ type: "startBreak", kind: "short", breakDuration: BREAK })
+    const before = timer.snapshot
+    timer.send({ type: "resume" })
+
+    expect(timer.snapshot).toBe(before)
+  })
+
+  it("returns to idle when the break is skipped", () => {
+    const timer = complete().send({ type: "skip" })
+
+    expect(timer.snapshot).toBe(IDLE_TIMER)
+    expect(timer.events.map((event) => event.type)).toEqual(["workComplete"])
+  })
+})
+
+describe("break halfway", () => {
+  it("reports the halfway point of a break once", () => {
+    const timer = launch().advance(MINUTE).send({ type: "surface", breakDuration: BREAK }).advance(BREAK / 2 - 1)
+    expect(timer.events).toEqual([])
+
+    timer.advance(1).advance(MINUTE)
+    expect(timer.snapshot.breakHalfwayPassed).toBe(true)
+    expect(timer.events).toEqual([{ type: "breakHalfway", breakKind: "surface", remaining: BREAK / 2 }])
+  })
+
+  it("reports it again for the next break", () => {
+    const timer = launch()
+      .advance(MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+      .advance(BREAK / 2)
+      .send({ type: "resume" })
+      .advance(MINUTE)
+      .send({ type: "surface", breakDuration: BREAK })
+      .advance(BREAK / 2)
+
+    expect(timer.events.map((event) => event.type)).toEqual(["breakHalfway", "breakHalfway"])
+  })
+
+  it("is skipped when the whole break passes unseen", () => {
+    const timer = launch().advance(WORK).send({ type: "startBreak", kind: "long", breakDuration: BREAK }).advance(BREAK)
+
+    expect(timer.events.map((event) => event.type)).toEqual(["workComplete", "breakComplete"])
+  })
+})
+
+describe("cruise mode", () => {
+  it("runs without a planned duration and never completes", () => {
+    const timer = launch(true).advance(3 * WORK)
+
+    expect(timer.snapshot.state).toBe("working")
+    expect(timer.snapshot.session?.plannedDuration).toBe(0)
+    expect(remainingTime(timer.snapshot, timer.now)).toBeNull()
+    expect(timer.events).toEqual([])
+  })
+
+  it("logs the run as cruise when disengaged", () => {
+    const timer = launch(true).advance(40 * MINUTE).send({ type: "disengage" })
+
+    expect(timer.events).toEqual([
+      { type: "sessionEnded", session: expect.objectContaining({ focusedTime: 40 * MINUTE, outcome: "cruise" }) },
+    ])
+  })
+})
+
+describe("restore", () => {
+  it("picks up a running tunnel where it left off", () => {
+    const saved = launch().advance(10 * MINUTE).snapshot
+    // Reopened a minute after it was saved
+    const timer = createTimer().advance(11 * MINUTE).send({ type: "restore", snapshot: saved })
+
+    expect(timer.snapshot).toBe(saved)
+    expect(remainingTime(timer.snapshot, timer.now)).toBe(14 * MINUTE)
+  })
+
+  it("completes a tunnel whose end passed while the page was closed", () => {
+    const saved = launch().snapshot
+    const timer = createTimer().advance(WORK + MINUTE).send({ type: "restore", snapshot: saved })
+
+    expect(timer.snapshot.state).toBe("workComplete")
+    expect(timer.events).toEqual([
+      { type: "workComplete", session: expect.objectContaining({ endedAt: START + WORK + MINUTE }) },
+    ])
+  })
+
+  it("brings back EXIT COMPLETE without completing the tunnel twice", () => {
+    const saved = launch().advance(WORK).snapshot
+    const timer = createTimer().advance(WORK + MINUTE).send({ type: "restore", snapshot: saved })
+
+    expect(timer.snapshot.state).toBe("workComplete")
+    expect(timer.events).toEqual([])
+
+    // The break offer still stands
+    timer.send({ type: "startBreak", kind: "short", breakDuration: BREAK })
+    expect(timer.snapshot.state).toBe("break")
+    expect(remainingTime(timer.snapshot, timer.now)).toBe(BREAK)
+  })
+
+  it("is ignored once a session is running", () => {
+    const timer = launch()
+    const before = timer.snapshot
+    timer.send({ type: "restore", snapshot: { ...before, state: "paused" } })
+
+    expect(timer.snapshot).toBe(before)
+  })
+})
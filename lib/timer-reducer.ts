@@ -0,0 +1,252 @@
+// ===== TIMER REDUCER =====
+// The session state machine as pure functions of a snapshot, a command and the
+// current time. Nothing here reads the clock or schedules anything - the timer
+// engine (lib/timer-engine.ts) supplies the time and wakes up at boundaries.
+
+import type { SessionOutcome } from "@/lib/session-history"
+
+export type TimerState = "idle" | "working" | "paused" | "workComplete" | "break" | "breakComplete"
+// "surface" is a mid-session pause; "short" and "long" follow a completed tunnel
+export type BreakKind = "surface" | "short" | "long"
+
+// Accounting for the session that's open between LAUNCH and its end
+export interface OpenSession {
+  startedAt: number
+  plannedDuration: number // 0 in cruise mode
+  surfaceCount: number
+  breakTime: number // Total SURFACE time
+  pausedTime: number // Total HOLD time
+}
+
+export interface TimerSnapshot {
+  state: TimerState
+  breakKind: BreakKind
+  cruiseMode: boolean
+  segmentStart: number // When the current working segment or break began
+  workElapsed: number // Work time banked before the current segment
+  holdStartedAt: number // When the current HOLD began, 0 when not held
+  workDuration: number
+  breakDuration: number
+  breakHalfwayPassed: boolean // Whether the running break has reported its halfway point
+  session: OpenSession | null // null for breaks after a completed tunnel
+}
+
+export interface SessionSummary extends OpenSession {
+  endedAt: number
+  focusedTime: number
+  outcome: SessionOutcome
+}
+
+export type TimerCommand =
+  | { type: "start"; workDuration: number; cruiseMode: boolean }
+  | { type: "surface"; breakDuration: number }
+  | { type: "hold" }
+  | { type: "resume" } // From a HOLD or a SURFACE break
+  | { type: "disengage" } // End a running tunnel early
+  | { type: "startBreak"; kind: "short" | "long"; breakDuration: number }
+  | { type: "skip" } // Leave a break or the completion screen for idle
+  | { type: "restore"; snapshot: TimerSnapshot }
+  | { type: "sync" } // Re-check the clock, e.g. after the machine wakes
+
+export type TimerEvent =
+  | { type: "state"; snapshot: TimerSnapshot }
+  | { type: "workComplete"; session: SessionSummary }
+  | { type: "breakComplete"; breakKind: BreakKind }
+  | { type: "breakHalfway"; breakKind: BreakKind; remaining: number }
+  | { type: "sessionEnded"; session: SessionSummary } // Disengaged, cruise run ended or SURFACE abandoned
+
+// Events besides "state", which the engine sends itself whenever the snapshot changes
+export type SessionEvent = Exclude<TimerEvent, { type: "state" }>
+
+export interface TimerTransition {
+  snapshot: TimerSnapshot // The same object when the command didn't apply
+  events: SessionEvent[]
+}
+
+export const IDLE_TIMER: TimerSnapshot = {
+  state: "idle",
+  breakKind: "surface",
+  cruiseMode: false,
+  segmentStart: 0,
+  workElapsed: 0,
+  holdStartedAt: 0,
+  workDuration: 0,
+  breakDuration: 0,
+  breakHalfwayPassed: false,
+  session: null,
+}
+
+// Time left in the phase that's counting down, or null when nothing is
+export const remainingTime = (snapshot: TimerSnapshot, now: number): number | null => {
+  if (snapshot.state === "working" && !snapshot.cruiseMode) {
+    return snapshot.workDuration - workElapsedAt(snapshot, now)
+  }
+  if (snapshot.state === "break") {
+    return snapshot.breakDuration - (now - snapshot.segmentStart)
+  }
+  return null
+}
+
+// Time until there's something to report - a break's halfway point or the end of the phase
+export const timeToNextBoundary = (snapshot: TimerSnapshot, now: number): number | null => {
+  const remaining = remainingTime(snapshot, now)
+  if (remaining === null || snapshot.state !== "break" || snapshot.breakHalfwayPassed) return remaining
+  return remaining - snapshot.breakDuration / 2
+}
+
+// Work time so far, including the running segment
+export const workElapsedAt = (snapshot: TimerSnapshot, now: number) =>
+  snapshot.workElapsed + (snapshot.state === "working" ? now - snapshot.segmentStart : 0)
+
+const summarize = (session: OpenSession, outcome: SessionOutcome, focusedTime: number, now: number): SessionSummary => ({
+  ...session,
+  breakTime: Math.round(session.breakTime),
+  pausedTime: Math.round(session.pausedTime),
+  endedAt: now,
+  focusedTime: Math.round(focusedTime),
+  outcome,
+})
+
+const withoutEvents = (snapshot: TimerSnapshot): TimerTransition => ({ snapshot, events: [] })
+
+// Close the running phase if its time is up, or mark a break's halfway point
+export const settleTimer = (snapshot: TimerSnapshot, now: number): TimerTransition => {
+  const remaining = remainingTime(snapshot, now)
+  if (remaining === null) return withoutEvents(snapshot)
+
+  if (remaining > 0) {
+    if (snapshot.state !== "break" || snapshot.breakHalfwayPassed || remaining > snapshot.breakDuration / 2) {
+      return withoutEvents(snapshot)
+    }
+    return {
+      snapshot: { ...snapshot, breakHalfwayPassed: true },
+      events: [{ type: "breakHalfway", breakKind: snapshot.breakKind, remaining }],
+    }
+  }
+
+  if (snapshot.state === "working") {
+    return {
+      snapshot: { ...snapshot, state: "workComplete", workElapsed: 0, session: null },
+      events: snapshot.session
+        ? [{ type: "workComplete", session: summarize(snapshot.session, "completed", snapshot.workDuration, now) }]
+        : [],
+    }
+  }
+  return {
+    // A break that ran out unseen skips straight to its end without a halfway report
+    snapshot: { ...snapshot, state: "breakComplete", breakHalfwayPassed: true },
+    events: [{ type: "breakComplete", breakKind: snapshot.breakKind }],
+  }
+}
+
+const applyCommand = (snapshot: TimerSnapshot, command: TimerCommand, now: number): TimerTransition => {
+  const { state, session } = snapshot
+
+  switch (command.type) {
+    case "start":
+      if (state !== "idle") return withoutEvents(snapshot)
+      return withoutEvents({
+        ...IDLE_TIMER,
+        state: "working",
+        cruiseMode: command.cruiseMode,
+        segmentStart: now,
+        workDuration: command.workDuration,
+        session: {
+          startedAt: now,
+          plannedDuration: command.cruiseMode ? 0 : command.workDuration,
+          surfaceCount: 0,
+          breakTime: 0,
+          pausedTime: 0,
+        },
+      })
+
+    case "surface":
+      if (state !== "working" || !session) return withoutEvents(snapshot)
+      return withoutEvents({
+        ...snapshot,
+        state: "break",
+        breakKind: "surface",
+        // Bank the segment on top of the work done before earlier SURFACE breaks
+        workElapsed: workElapsedAt(snapshot, now),
+        segmentStart: now,
+        breakDuration: command.breakDuration,
+        breakHalfwayPassed: false,
+        session: { ...session, surfaceCount: session.surfaceCount + 1 },
+      })
+
+    case "hold":
+      if (state !== "working" || !session) return withoutEvents(snapshot)
+      return withoutEvents({ ...snapshot, state: "paused", workElapsed: workElapsedAt(snapshot, now), holdStartedAt: now })
+
+    case "resume":
+      if (state === "paused" && session) {
+        return withoutEvents({
+          ...snapshot,
+          state: "working",
+          segmentStart: now,
+          holdStartedAt: 0,
+          session: { ...session, pausedTime: session.pausedTime + now - snapshot.holdStartedAt },
+        })
+      }
+      if (state === "break" && snapshot.breakKind === "surface" && session) {
+        return withoutEvents({
+          ...snapshot,
+          state: "working",
+          segmentStart: now,
+          session: { ...session, breakTime: session.breakTime + now - snapshot.segmentStart },
+        })
+      }
+      return withoutEvents(snapshot)
+
+    case "disengage": {
+      if ((state !== "working" && state !== "paused") || !session) return withoutEvents(snapshot)
+      // While held, the countdown isn't running, so the open segment adds nothing
+      const pausedTime = session.pausedTime + (state === "paused" ? now - snapshot.holdStartedAt : 0)
+      const ended = summarize(
+        { ...session, pausedTime },
+        snapshot.cruiseMode ? "cruise" : "disengaged",
+        workElapsedAt(snapshot, now),
+        now,
+      )
+      return { snapshot: IDLE_TIMER, events: [{ type: "sessionEnded", session: ended }] }
+    }
+
+    case "startBreak":
+      if (state !== "workComplete") return withoutEvents(snapshot)
+      return withoutEvents({
+        ...snapshot,
+        state: "break",
+        breakKind: command.kind,
+        segmentStart: now,
+        breakDuration: command.breakDuration,
+        breakHalfwayPassed: false,
+      })
+
+    case "skip": {
+      if (state !== "workComplete" && state !== "break" && state !== "breakComplete") return withoutEvents(snapshot)
+      // Leaving a SURFACE break without resuming abandons the session
+      if (!session || snapshot.breakKind !== "surface") return withoutEvents(IDLE_TIMER)
+      const abandoned = summarize(
+        { ...session, breakTime: session.breakTime + now - snapshot.segmentStart },
+        "disengaged",
+        snapshot.workElapsed,
+        now,
+      )
+      return { snapshot: IDLE_TIMER, events: [{ type: "sessionEnded", session: abandoned }] }
+    }
+
+    case "restore":
+      return withoutEvents(state === "idle" ? command.snapshot : snapshot)
+
+    case "sync":
+      return withoutEvents(snapshot)
+  }
+}
+
+// Apply a command, then close the phase if its time is already up - e.g. a
+// session restored after the page was closed past its end
+export const reduceTimer = (snapshot: TimerSnapshot, command: TimerCommand, now: number): TimerTransition => {
+  const applied = applyCommand(snapshot, command, now)
+  const settled = settleTimer(applied.snapshot, now)
+  return { snapshot: settled.snapshot, events: [...applied.events, ...settled.events] }
+}
@@ -0,0 +1,16 @@
+// ===== TIMER WORKER =====
+// Hosts the timer engine off the main thread, where background-tab throttling
+// and a busy animation loop can't delay session boundaries.
+
+import { createTimerEngine } from "@/lib/timer-engine"
+import type { TimerCommand, TimerEvent } from "@/lib/timer-reducer"
+
+// The dedicated worker scope - the project only loads the DOM typings
+const scope = self as unknown as {
+  postMessage: (event: TimerEvent) => void
+  onmessage: ((message: MessageEvent<TimerCommand>) => void) | null
+}
+
+const engine = createTimerEngine((event) => scope.postMessage(event))
+
+scope.onmessage = (message) => engine.send(message.data)